@@ -28,16 +28,16 @@ export class OrderService {
 
   // 手动管理锁的生命周期
   async updateOrderInventory(orderId: string, quantity: number): Promise<void> {
-    const lock = await this.lockService.acquire(`inventory:${orderId}`, {
+    const { acquired, lock } = await this.lockService.acquire(`inventory:${orderId}`, {
       timeout: 5000,
       wait: false, // 非阻塞模式，如果锁被占用立即返回
     });
 
-    try {
-      if (!lock) {
-        throw new Error('无法获取锁，请稍后重试');
-      }
+    if (!acquired) {
+      throw new Error('无法获取锁，请稍后重试');
+    }
 
+    try {
       console.log(`更新库存: 订单 ${orderId}, 数量 ${quantity}`);
       await this.simulateInventoryUpdate(orderId, quantity);
     } finally {
@@ -92,7 +92,7 @@ export class OrderController {
 
   // 支持动态锁键的装饰器
   @Post(':id/process-dynamic')
-  @Lock((orderId: string) => ({ key: `order:${orderId}`, timeout: 5000 }))
+  @Lock(({ params }) => ({ key: `order:${params.id}`, timeout: 5000 }))
   async processOrderDynamic(@Param('id') orderId: string): Promise<{ success: boolean; message: string }> {
     console.log(`使用动态锁键处理订单: ${orderId}`);
     
@@ -0,0 +1,5 @@
+export * from './postgres-advisory.backend';
+export * from './mysql.backend';
+export * from './memory.backend';
+export * from './redis.backend';
+export * from './lock-backend.factory';
\ No newline at end of file
@@ -0,0 +1,28 @@
+import { createLockBackend } from './lock-backend.factory';
+import { PostgresAdvisoryBackend } from './postgres-advisory.backend';
+import { MySqlLockBackend } from './mysql.backend';
+import { MemoryLockBackend } from './memory.backend';
+
+describe('createLockBackend', () => {
+  it('should default to postgres', () => {
+    const dataSource = { options: { type: 'postgres' } };
+
+    expect(createLockBackend({ dataSource })).toBeInstanceOf(PostgresAdvisoryBackend);
+  });
+
+  it.each(['mysql', 'mariadb'])('should detect %s data sources', (type) => {
+    expect(createLockBackend({}, { options: { type } })).toBeInstanceOf(MySqlLockBackend);
+  });
+
+  it('should not require a data source for the memory backend', () => {
+    expect(createLockBackend({ backend: 'memory' })).toBeInstanceOf(MemoryLockBackend);
+  });
+
+  it('should require a data source for database backends', () => {
+    expect(() => createLockBackend({ backend: 'mysql' })).toThrow('DataSource is required');
+  });
+
+  it('should require a redis client for the redis backend', () => {
+    expect(() => createLockBackend({ backend: 'redis' })).toThrow('Redis client is required');
+  });
+});
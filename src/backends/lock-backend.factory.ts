@@ -0,0 +1,57 @@
+import { AnyDataSource, DistributedLockOptions, LockBackend, LockBackendType } from '../interfaces';
+import { PostgresAdvisoryBackend } from './postgres-advisory.backend';
+import { MySqlLockBackend } from './mysql.backend';
+import { MemoryLockBackend } from './memory.backend';
+import { RedisLockBackend } from './redis.backend';
+
+/**
+ * 根据模块配置创建锁后端
+ */
+export function createLockBackend(
+  options: DistributedLockOptions,
+  defaultDataSource?: AnyDataSource,
+): LockBackend {
+  if (typeof options.backend === 'object') {
+    return options.backend;
+  }
+
+  // 使用自定义数据源（支持代理数据源）或默认数据源
+  const dataSource = options.dataSource || defaultDataSource;
+  const backend = options.backend ?? detectBackendType(dataSource);
+
+  switch (backend) {
+    case 'postgres':
+    case 'mysql':
+      if (!dataSource) {
+        throw new Error('DataSource is required. Please either provide a dataSource option or ensure TypeORM DataSource is available.');
+      }
+      return backend === 'mysql'
+        ? new MySqlLockBackend(dataSource, {
+          fencingTable: options.fencingTable,
+          jobRunsTable: options.jobRunsTable,
+        })
+        : new PostgresAdvisoryBackend(dataSource, {
+          keyAlgorithm: options.lockKeyAlgorithm,
+          fencingTable: options.fencingTable,
+          jobRunsTable: options.jobRunsTable,
+        });
+    case 'memory':
+      return new MemoryLockBackend();
+    case 'redis':
+      if (!options.redis?.client) {
+        throw new Error('Redis client is required. Please provide the redis.client option when using the redis backend.');
+      }
+      return new RedisLockBackend(options.redis);
+    default:
+      throw new Error(`Unsupported lock backend: ${backend}`);
+  }
+}
+
+/**
+ * 未显式指定后端时，根据TypeORM数据源的数据库类型选择
+ */
+function detectBackendType(dataSource?: AnyDataSource): LockBackendType {
+  const type = dataSource?.options?.type;
+
+  return type === 'mysql' || type === 'mariadb' ? 'mysql' : 'postgres';
+}
@@ -0,0 +1,215 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { MemoryLockBackend } from './memory.backend';
+import { DistributedLockModule } from '../distributed-lock.module';
+import { DistributedLockService } from '../distributed-lock.service';
+
+describe('MemoryLockBackend', () => {
+  let backend: MemoryLockBackend;
+
+  beforeEach(() => {
+    backend = new MemoryLockBackend();
+  });
+
+  it('should not grant a held lock to another caller', async () => {
+    const lease = await backend.tryAcquire('test-key', { timeout: 100 });
+
+    expect(lease).not.toBeNull();
+    expect(await backend.isHeld('test-key')).toBe(true);
+    expect(await backend.tryAcquire('test-key', { timeout: 100 })).toBeNull();
+
+    await backend.release('test-key', lease);
+    expect(await backend.isHeld('test-key')).toBe(false);
+  });
+
+  it('should hand the lock to waiters in arrival order', async () => {
+    const first = await backend.acquire('test-key', { timeout: 1000 });
+    const order: number[] = [];
+
+    const second = backend.acquire('test-key', { timeout: 1000 }).then((lease) => {
+      order.push(2);
+      return lease;
+    });
+    const third = backend.acquire('test-key', { timeout: 1000 }).then((lease) => {
+      order.push(3);
+      return lease;
+    });
+
+    await backend.release('test-key', first);
+    await backend.release('test-key', await second);
+    await backend.release('test-key', await third);
+
+    expect(order).toEqual([2, 3]);
+  });
+
+  it('should return null when the timeout elapses', async () => {
+    await backend.acquire('test-key', { timeout: 1000 });
+
+    const start = Date.now();
+    const lease = await backend.acquire('test-key', { timeout: 50 });
+
+    expect(lease).toBeNull();
+    expect(Date.now() - start).toBeGreaterThanOrEqual(45);
+  });
+
+  it('should not release a lock with a stale lease', async () => {
+    const stale = await backend.acquire('test-key', { timeout: 100 });
+    await backend.release('test-key', stale);
+    const current = await backend.acquire('test-key', { timeout: 100 });
+
+    expect(await backend.release('test-key', stale)).toBe(false);
+    expect(await backend.isHeld('test-key')).toBe(true);
+
+    await backend.release('test-key', current);
+  });
+
+  describe('shared mode', () => {
+    it('should let shared holders coexist and exclude writers', async () => {
+      const reader1 = await backend.tryAcquire('test-key', { timeout: 100, mode: 'shared' });
+      const reader2 = await backend.tryAcquire('test-key', { timeout: 100, mode: 'shared' });
+
+      expect(reader1).not.toBeNull();
+      expect(reader2).not.toBeNull();
+      expect(await backend.tryAcquire('test-key', { timeout: 100 })).toBeNull();
+
+      await backend.release('test-key', reader1);
+      expect(await backend.isHeld('test-key')).toBe(true);
+      await backend.release('test-key', reader2);
+      expect(await backend.isHeld('test-key')).toBe(false);
+    });
+
+    it('should not let new readers overtake a waiting writer', async () => {
+      const reader = await backend.acquire('test-key', { timeout: 1000, mode: 'shared' });
+      const writer = backend.acquire('test-key', { timeout: 1000 });
+
+      expect(await backend.tryAcquire('test-key', { timeout: 100, mode: 'shared' })).toBeNull();
+
+      await backend.release('test-key', reader);
+      const writerLease = await writer;
+      expect(writerLease.mode).toBe('exclusive');
+
+      await backend.release('test-key', writerLease);
+    });
+
+    it('should wake all queued readers when a writer releases', async () => {
+      const writer = await backend.acquire('test-key', { timeout: 1000 });
+      const readers = Promise.all([
+        backend.acquire('test-key', { timeout: 1000, mode: 'shared' }),
+        backend.acquire('test-key', { timeout: 1000, mode: 'shared' }),
+      ]);
+
+      await backend.release('test-key', writer);
+      const leases = await readers;
+
+      expect(leases.every((lease) => lease?.mode === 'shared')).toBe(true);
+    });
+  });
+
+  describe('with DistributedLockService', () => {
+    let module: TestingModule;
+    let service: DistributedLockService;
+
+    beforeEach(async () => {
+      module = await Test.createTestingModule({
+        imports: [DistributedLockModule.forRoot({ backend: 'memory', retryDelay: 10 })],
+      }).compile();
+
+      service = module.get<DistributedLockService>(DistributedLockService);
+    });
+
+    afterEach(async () => {
+      await module.close();
+    });
+
+    it('should serialize concurrent withLock callers', async () => {
+      let active = 0;
+      let maxActive = 0;
+
+      const task = () => service.withLock('test-key', async () => {
+        active++;
+        maxActive = Math.max(maxActive, active);
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        active--;
+      });
+
+      await Promise.all([task(), task(), task()]);
+
+      expect(maxActive).toBe(1);
+      expect(await service.isLocked('test-key')).toBe(false);
+    });
+
+    it('should run readers concurrently with withReadLock', async () => {
+      let active = 0;
+      let maxActive = 0;
+
+      const read = () => service.withReadLock('test-key', async () => {
+        active++;
+        maxActive = Math.max(maxActive, active);
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        active--;
+      });
+
+      await Promise.all([read(), read(), read()]);
+
+      expect(maxActive).toBe(3);
+    });
+
+    it('should return a unique owner token on every acquisition', async () => {
+      const first = await service.acquire('test-key');
+      await first.lock.release();
+      const second = await service.acquire('test-key');
+      await second.lock.release();
+
+      expect(first.lock.token).toEqual(expect.any(String));
+      expect(second.lock.token).not.toBe(first.lock.token);
+      expect(first.lock.fencingToken).toBeUndefined();
+    });
+
+    it('should issue increasing fencing tokens when fencing is enabled', async () => {
+      const fencedModule = await Test.createTestingModule({
+        imports: [DistributedLockModule.forRoot({ backend: 'memory', fencing: true })],
+      }).compile();
+      const fencedService = fencedModule.get<DistributedLockService>(DistributedLockService);
+
+      const fences: number[] = [];
+      for (let i = 0; i < 3; i++) {
+        const result = await fencedService.acquire('test-key');
+        fences.push(result.lock.fencingToken);
+        await result.lock.release();
+      }
+
+      expect(fences).toEqual([1, 2, 3]);
+      await fencedModule.close();
+    });
+
+    it('should report held when wait is false', async () => {
+      const result = await service.acquire('test-key');
+
+      const second = await service.acquire('test-key', { wait: false });
+      expect(second.acquired).toBe(false);
+      expect(second.reason).toBe('held');
+
+      await result.lock.release();
+    });
+
+    it('should report timeout once the acquisition deadline passes', async () => {
+      const result = await service.acquire('test-key');
+
+      const start = Date.now();
+      const second = await service.acquire('test-key', { timeout: 50 });
+
+      expect(second.acquired).toBe(false);
+      expect(second.reason).toBe('timeout');
+      expect(Date.now() - start).toBeLessThan(500);
+
+      await result.lock.release();
+    });
+
+    it('should release the lock after ttl', async () => {
+      await service.acquire('test-key', { ttl: 30 });
+      expect(await service.isLocked('test-key')).toBe(true);
+
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      expect(await service.isLocked('test-key')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,181 @@
+import { LockBackend, LockBackendAcquireOptions, LockLease, LockMode } from '../interfaces';
+
+interface MemoryLockState {
+  mode: LockMode;
+  /** 当前持有者的租约编号，排他模式下只有一个 */
+  owners: Set<number>;
+}
+
+interface MemoryLockWaiter {
+  mode: LockMode;
+  resolve: (lease: LockLease | null) => void;
+  timer: NodeJS.Timeout;
+}
+
+/**
+ * 进程内锁后端
+ * 适用于测试和单进程部署，不依赖数据库；等待者按到达顺序获得锁
+ */
+export class MemoryLockBackend implements LockBackend {
+  readonly name = 'memory';
+
+  private readonly locks = new Map<string, MemoryLockState>();
+  private readonly waiters = new Map<string, MemoryLockWaiter[]>();
+  private readonly fences = new Map<string, number>();
+  private readonly lastRuns = new Map<string, number>();
+  private sequence = 0;
+
+  async acquire(key: string, options: LockBackendAcquireOptions): Promise<LockLease | null> {
+    this.assertSessionScope(options);
+
+    const mode = options.mode ?? 'exclusive';
+    const lease = this.take(key, mode);
+    if (lease) {
+      return lease;
+    }
+
+    return new Promise<LockLease | null>((resolve) => {
+      const giveUp = () => {
+        clearTimeout(waiter.timer);
+        options.signal?.removeEventListener('abort', giveUp);
+        this.removeWaiter(key, waiter);
+        resolve(null);
+      };
+      const waiter: MemoryLockWaiter = {
+        mode,
+        resolve: (lease) => {
+          options.signal?.removeEventListener('abort', giveUp);
+          resolve(lease);
+        },
+        timer: setTimeout(giveUp, options.timeout),
+      };
+      options.signal?.addEventListener('abort', giveUp);
+
+      const queue = this.waiters.get(key) ?? [];
+      queue.push(waiter);
+      this.waiters.set(key, queue);
+    });
+  }
+
+  async tryAcquire(key: string, options: LockBackendAcquireOptions): Promise<LockLease | null> {
+    this.assertSessionScope(options);
+    return this.take(key, options.mode ?? 'exclusive');
+  }
+
+  async release(key: string, lease?: LockLease): Promise<boolean> {
+    const state = this.locks.get(key);
+
+    // 租约已失效（例如TTL到期后锁被他人获取）时不能释放别人的锁
+    if (!state || (lease && !state.owners.has(lease.session))) {
+      return false;
+    }
+
+    if (lease) {
+      state.owners.delete(lease.session);
+    } else {
+      state.owners.clear();
+    }
+
+    if (!state.owners.size) {
+      this.locks.delete(key);
+      this.handOver(key);
+    }
+    return true;
+  }
+
+  async isHeld(key: string): Promise<boolean> {
+    return this.locks.has(key);
+  }
+
+  async extend(lease: LockLease, _ttl: number): Promise<boolean> {
+    // 过期由服务层的TTL计时器负责，这里只确认租约仍然有效
+    return this.locks.get(lease.key)?.owners.has(lease.session) ?? false;
+  }
+
+  async fence(lease: LockLease): Promise<number> {
+    const fence = (this.fences.get(lease.key) ?? 0) + 1;
+    this.fences.set(lease.key, fence);
+    return fence;
+  }
+
+  async getLastRun(key: string): Promise<number | null> {
+    return this.lastRuns.get(key) ?? null;
+  }
+
+  async setLastRun(key: string, time: number): Promise<void> {
+    this.lastRuns.set(key, time);
+  }
+
+  private assertSessionScope(options: LockBackendAcquireOptions): void {
+    if (options.scope === 'transaction') {
+      throw new Error('Transaction-scoped locks are not supported by the memory backend');
+    }
+  }
+
+  private take(key: string, mode: LockMode, queued = false): LockLease | null {
+    const state = this.locks.get(key);
+
+    if (state) {
+      // 共享锁可以叠加，但有人排队时不插队，避免排他锁饿死
+      const waiting = !queued && this.waiters.has(key);
+      if (mode === 'exclusive' || state.mode === 'exclusive' || waiting) {
+        return null;
+      }
+    }
+
+    const id = ++this.sequence;
+    if (state) {
+      state.owners.add(id);
+    } else {
+      this.locks.set(key, { mode, owners: new Set([id]) });
+    }
+    return { key, lockId: key, mode, session: id };
+  }
+
+  /**
+   * 将锁直接交给队首的等待者，避免新来的调用者插队；
+   * 队首是共享锁时，紧随其后的共享锁等待者一起获得锁
+   */
+  private handOver(key: string): void {
+    const queue = this.waiters.get(key);
+
+    while (queue?.length) {
+      const lease = this.take(key, queue[0].mode, true);
+      if (!lease) {
+        break;
+      }
+
+      const waiter = queue.shift();
+      clearTimeout(waiter.timer);
+      waiter.resolve(lease);
+
+      if (lease.mode === 'exclusive') {
+        break;
+      }
+    }
+
+    if (!queue?.length) {
+      this.waiters.delete(key);
+    }
+  }
+
+  private removeWaiter(key: string, waiter: MemoryLockWaiter): void {
+    const queue = this.waiters.get(key);
+    if (!queue) {
+      return;
+    }
+
+    const index = queue.indexOf(waiter);
+    if (index >= 0) {
+      queue.splice(index, 1);
+    }
+    if (!queue.length) {
+      this.waiters.delete(key);
+    }
+
+    // 队首的排他等待者超时后，排在后面的共享等待者可能已经可以获得锁
+    if (index === 0 && this.locks.has(key)) {
+      this.handOver(key);
+    }
+  }
+}
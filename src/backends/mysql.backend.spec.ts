@@ -0,0 +1,129 @@
+import { MySqlLockBackend } from './mysql.backend';
+
+describe('MySqlLockBackend', () => {
+  let backend: MySqlLockBackend;
+  let dataSourceMock: any;
+  let queryRunnerMock: any;
+
+  beforeEach(() => {
+    queryRunnerMock = {
+      connect: jest.fn().mockResolvedValue(undefined),
+      query: jest.fn().mockResolvedValue([{ acquired: 1 }]),
+      release: jest.fn().mockResolvedValue(undefined),
+    };
+
+    dataSourceMock = {
+      options: { type: 'mysql' },
+      query: jest.fn().mockResolvedValue([]),
+      createQueryRunner: jest.fn().mockReturnValue(queryRunnerMock),
+    };
+
+    backend = new MySqlLockBackend(dataSourceMock);
+  });
+
+  describe('acquire', () => {
+    it('should call GET_LOCK with the timeout in seconds', async () => {
+      const lease = await backend.acquire('order:123', { timeout: 2500 });
+
+      expect(lease).toEqual({ key: 'order:123', lockId: 'order:123', session: queryRunnerMock });
+      expect(queryRunnerMock.query).toHaveBeenCalledWith('SELECT GET_LOCK(?, ?) AS acquired', ['order:123', 3]);
+      expect(queryRunnerMock.release).not.toHaveBeenCalled();
+    });
+
+    it('should return null and release the runner on timeout', async () => {
+      queryRunnerMock.query.mockResolvedValue([{ acquired: 0 }]);
+
+      expect(await backend.acquire('order:123', { timeout: 1000 })).toBeNull();
+      expect(queryRunnerMock.release).toHaveBeenCalled();
+    });
+  });
+
+  describe('tryAcquire', () => {
+    it('should call GET_LOCK with a zero timeout', async () => {
+      await backend.tryAcquire('order:123', { timeout: 1000 });
+
+      expect(queryRunnerMock.query).toHaveBeenCalledWith('SELECT GET_LOCK(?, ?) AS acquired', ['order:123', 0]);
+    });
+  });
+
+  describe('acquireMany', () => {
+    it('should take all locks on one session in name order', async () => {
+      const lease = await backend.acquireMany(['order:2', 'order:1'], { timeout: 2000 }, true);
+
+      expect(dataSourceMock.createQueryRunner).toHaveBeenCalledTimes(1);
+      expect(queryRunnerMock.query.mock.calls.map(([, params]) => params[0])).toEqual(['order:1', 'order:2']);
+      expect(lease.members.map((member) => member.key)).toEqual(['order:1', 'order:2']);
+
+      queryRunnerMock.query.mockResolvedValue([{ released: 1 }]);
+      await expect(backend.release(lease.key, lease)).resolves.toBe(true);
+      expect(queryRunnerMock.query).toHaveBeenCalledWith('SELECT RELEASE_LOCK(?) AS released', ['order:2']);
+    });
+
+    it('should release every lock when one is not available', async () => {
+      queryRunnerMock.query
+        .mockResolvedValueOnce([{ acquired: 1 }])
+        .mockResolvedValueOnce([{ acquired: 0 }]);
+
+      expect(await backend.acquireMany(['order:1', 'order:2'], { timeout: 1000 }, false)).toBeNull();
+      expect(queryRunnerMock.query).toHaveBeenCalledWith('SELECT GET_LOCK(?, ?) AS acquired', ['order:2', 0]);
+      expect(queryRunnerMock.query).toHaveBeenLastCalledWith('SELECT RELEASE_ALL_LOCKS()');
+      expect(queryRunnerMock.release).toHaveBeenCalled();
+    });
+  });
+
+  describe('release', () => {
+    it('should call RELEASE_LOCK on the holding runner', async () => {
+      const lease = await backend.acquire('order:123', { timeout: 1000 });
+      queryRunnerMock.query.mockResolvedValue([{ released: 1 }]);
+
+      await expect(backend.release('order:123', lease)).resolves.toBe(true);
+      expect(queryRunnerMock.query).toHaveBeenLastCalledWith('SELECT RELEASE_LOCK(?) AS released', ['order:123']);
+      expect(queryRunnerMock.release).toHaveBeenCalled();
+    });
+
+    it('should destroy the connection when RELEASE_LOCK fails', async () => {
+      const lease = await backend.acquire('order:123', { timeout: 1000 });
+      queryRunnerMock.databaseConnection = { destroy: jest.fn() };
+      queryRunnerMock.query.mockRejectedValueOnce(new Error('Connection lost'));
+
+      await expect(backend.release('order:123', lease)).rejects.toThrow('Connection lost');
+      expect(queryRunnerMock.databaseConnection.destroy).toHaveBeenCalled();
+    });
+
+    it('should skip RELEASE_LOCK on a connection known to be dead', async () => {
+      const lease = await backend.acquire('order:123', { timeout: 1000 });
+      queryRunnerMock.databaseConnection = { destroy: jest.fn() };
+      queryRunnerMock.query.mockClear();
+      lease.connectionError = new Error('heartbeat failed');
+
+      await expect(backend.release('order:123', lease)).resolves.toBe(true);
+      expect(queryRunnerMock.query).not.toHaveBeenCalled();
+      expect(queryRunnerMock.databaseConnection.destroy).toHaveBeenCalled();
+    });
+  });
+
+  describe('isHeld', () => {
+    it('should use IS_USED_LOCK', async () => {
+      dataSourceMock.query.mockResolvedValueOnce([{ owner: 42 }]).mockResolvedValueOnce([{ owner: null }]);
+
+      expect(await backend.isHeld('order:123')).toBe(true);
+      expect(await backend.isHeld('order:123')).toBe(false);
+      expect(dataSourceMock.query).toHaveBeenCalledWith('SELECT IS_USED_LOCK(?) AS owner', ['order:123']);
+    });
+  });
+
+  describe('generateLockName', () => {
+    it('should keep keys within the 64 character limit', () => {
+      const key = 'a'.repeat(64);
+      expect(backend.generateLockName(key)).toBe(key);
+    });
+
+    it('should hash longer keys consistently', () => {
+      const name = backend.generateLockName('a'.repeat(100));
+
+      expect(name.length).toBeLessThanOrEqual(64);
+      expect(name).toBe(backend.generateLockName('a'.repeat(100)));
+      expect(name).not.toBe(backend.generateLockName('b'.repeat(100)));
+    });
+  });
+});
@@ -0,0 +1,288 @@
+import { createHash } from 'crypto';
+import { Logger } from '@nestjs/common';
+
+import {
+  AnyDataSource,
+  LockBackend,
+  LockBackendAcquireOptions,
+  LockLease,
+  SqlLockBackendOptions,
+} from '../interfaces';
+import { DEFAULT_FENCING_TABLE, DEFAULT_JOB_RUNS_TABLE } from '../distributed-lock.constants';
+import { destroyOnAbort, destroyQueryRunner, pingQueryRunner, watchQueryRunner } from './query-runner.utils';
+import { ensureTable } from './sql-table.utils';
+
+/** MySQL用户锁名称的最大长度 */
+const MAX_LOCK_NAME_LENGTH = 64;
+
+/**
+ * 基于MySQL/MariaDB GET_LOCK 的锁后端
+ * 与PostgreSQL后端一样，每把锁占用一个独立的QueryRunner直到释放
+ */
+export class MySqlLockBackend implements LockBackend {
+  readonly name = 'mysql';
+
+  private readonly logger = new Logger(MySqlLockBackend.name);
+  private readonly fencingTable: string;
+  private readonly jobRunsTable: string;
+  private readonly tables = new Map<string, Promise<void>>();
+
+  constructor(
+    private readonly dataSource: AnyDataSource,
+    options: SqlLockBackendOptions = {},
+  ) {
+    this.fencingTable = options.fencingTable ?? DEFAULT_FENCING_TABLE;
+    this.jobRunsTable = options.jobRunsTable ?? DEFAULT_JOB_RUNS_TABLE;
+  }
+
+  async acquire(key: string, options: LockBackendAcquireOptions): Promise<LockLease | null> {
+    // GET_LOCK 的超时单位为秒
+    return this.getLock(key, Math.max(1, Math.ceil(options.timeout / 1000)), options);
+  }
+
+  async tryAcquire(key: string, options: LockBackendAcquireOptions): Promise<LockLease | null> {
+    return this.getLock(key, 0, options);
+  }
+
+  /**
+   * 在同一个会话上获取多把锁（MySQL 5.7+ 允许一个会话同时持有多个用户锁）
+   * 按锁名称排序，所有进程以相同顺序加锁，避免互相等待形成死锁；
+   * 任意一把锁未能获取时释放已获取的锁
+   */
+  async acquireMany(keys: string[], options: LockBackendAcquireOptions, wait: boolean): Promise<LockLease | null> {
+    this.assertSupported(options);
+
+    const members: LockLease[] = keys
+      .map((key) => ({ key, lockId: this.generateLockName(key) }))
+      .sort((a, b) => a.lockId.localeCompare(b.lockId) || a.key.localeCompare(b.key));
+
+    const queryRunner = this.dataSource.createQueryRunner();
+    const deadline = Date.now() + options.timeout;
+    const stopAbortListener = wait ? destroyOnAbort(options.signal, queryRunner) : () => { };
+
+    try {
+      await queryRunner.connect();
+
+      for (const member of members) {
+        const remaining = deadline - Date.now();
+        if (wait && remaining <= 0) {
+          await this.abandonSession(queryRunner);
+          return null;
+        }
+
+        const result = await queryRunner.query(
+          'SELECT GET_LOCK(?, ?) AS acquired',
+          [member.lockId, wait ? Math.max(1, Math.ceil(remaining / 1000)) : 0],
+        );
+
+        if (Number(result[0]?.acquired) !== 1) {
+          this.logger.debug(`multi-key lock not available: ${member.lockId} original key: ${member.key}`);
+          await this.abandonSession(queryRunner);
+          return null;
+        }
+      }
+
+      return {
+        key: keys.join(','),
+        lockId: members.map((member) => member.lockId).join(','),
+        session: queryRunner,
+        members: members.map((member) => ({ ...member, session: queryRunner })),
+      };
+    } catch (error) {
+      await this.abandonSession(queryRunner);
+      throw error;
+    } finally {
+      stopAbortListener();
+    }
+  }
+
+  async release(key: string, lease?: LockLease): Promise<boolean> {
+    const queryRunner = lease?.session;
+
+    if (!queryRunner) {
+      // 用户锁只能由持有它的会话释放，这里只能碰运气
+      const result = await this.dataSource.query(
+        'SELECT RELEASE_LOCK(?) AS released',
+        [this.generateLockName(key)],
+      );
+      return Number(result[0]?.released) === 1;
+    }
+
+    if (lease.connectionError) {
+      // 连接已确认不可用，RELEASE_LOCK 同样会卡住；销毁连接后MySQL会释放会话上的用户锁
+      await this.destroySession(key, queryRunner, lease.connectionError);
+      return true;
+    }
+
+    let released = true;
+    try {
+      // 多键租约逐个释放
+      for (const member of lease.members ?? [lease]) {
+        const result = await queryRunner.query(
+          'SELECT RELEASE_LOCK(?) AS released',
+          [member.lockId],
+        );
+        released = released && Number(result?.[0]?.released) === 1;
+      }
+    } catch (error) {
+      // 释放失败说明连接已损坏，销毁连接而不是放回池中
+      await this.destroySession(key, queryRunner, error);
+      throw error;
+    }
+
+    await queryRunner.release().catch((err) => {
+      this.logger.error(`Failed to release query runner for ${key}`, err);
+    });
+    return released;
+  }
+
+  async isHeld(key: string): Promise<boolean> {
+    const result = await this.dataSource.query(
+      'SELECT IS_USED_LOCK(?) AS owner',
+      [this.generateLockName(key)],
+    );
+
+    return result[0]?.owner !== null && result[0]?.owner !== undefined;
+  }
+
+  async extend(_lease: LockLease, _ttl: number): Promise<boolean> {
+    // 用户锁没有过期时间，持有会话即持有锁
+    return true;
+  }
+
+  async fence(lease: LockLease): Promise<number> {
+    await this.ensureFencingTable();
+
+    // 持有锁期间只有当前会话会修改该行，先递增再读取是安全的
+    await lease.session.query(
+      `INSERT INTO ${this.fencingTable} (lock_key, fence) VALUES (?, 1)
+       ON DUPLICATE KEY UPDATE fence = fence + 1`,
+      [lease.lockId],
+    );
+    const result = await lease.session.query(
+      `SELECT fence FROM ${this.fencingTable} WHERE lock_key = ?`,
+      [lease.lockId],
+    );
+    return Number(result[0].fence);
+  }
+
+  async getLastRun(key: string): Promise<number | null> {
+    await this.ensureJobRunsTable();
+
+    const result = await this.dataSource.query(
+      `SELECT last_run FROM ${this.jobRunsTable} WHERE job_key = ?`,
+      [this.generateLockName(key)],
+    );
+    return result.length ? Number(result[0].last_run) : null;
+  }
+
+  async setLastRun(key: string, time: number): Promise<void> {
+    await this.ensureJobRunsTable();
+
+    await this.dataSource.query(
+      `INSERT INTO ${this.jobRunsTable} (job_key, last_run) VALUES (?, ?)
+       ON DUPLICATE KEY UPDATE last_run = VALUES(last_run)`,
+      [this.generateLockName(key), time],
+    );
+  }
+
+  async ping(lease: LockLease): Promise<void> {
+    await pingQueryRunner(lease);
+  }
+
+  watch(lease: LockLease, onLost: (error: Error) => void): () => void {
+    return watchQueryRunner(lease, onLost);
+  }
+
+  /**
+   * 生成MySQL锁名称
+   * 直接使用原始键以便在 performance_schema 中排查，超过64字符时使用其SHA-1摘要
+   */
+  generateLockName(key: string): string {
+    if (key.length <= MAX_LOCK_NAME_LENGTH) {
+      return key;
+    }
+
+    return createHash('sha1').update(key).digest('hex');
+  }
+
+  private async destroySession(key: string, queryRunner: any, error: Error): Promise<void> {
+    await destroyQueryRunner(queryRunner, error).catch((err) => {
+      this.logger.error(`Failed to destroy query runner for ${key}`, err);
+    });
+  }
+
+  private ensureFencingTable(): Promise<void> {
+    return ensureTable(
+      this.dataSource,
+      this.tables,
+      `CREATE TABLE IF NOT EXISTS ${this.fencingTable} (
+         lock_key VARCHAR(${MAX_LOCK_NAME_LENGTH}) PRIMARY KEY,
+         fence BIGINT NOT NULL
+       )`,
+    );
+  }
+
+  private ensureJobRunsTable(): Promise<void> {
+    return ensureTable(
+      this.dataSource,
+      this.tables,
+      `CREATE TABLE IF NOT EXISTS ${this.jobRunsTable} (
+         job_key VARCHAR(${MAX_LOCK_NAME_LENGTH}) PRIMARY KEY,
+         last_run BIGINT NOT NULL
+       )`,
+    );
+  }
+
+  private assertSupported(options: LockBackendAcquireOptions): void {
+    if (options.mode === 'shared') {
+      // GET_LOCK 只有排他语义
+      throw new Error('Shared locks are not supported by the mysql backend');
+    }
+    if (options.scope === 'transaction') {
+      throw new Error('Transaction-scoped locks are not supported by the mysql backend');
+    }
+  }
+
+  /**
+   * 释放会话上已获取的所有用户锁并归还连接
+   */
+  private async abandonSession(queryRunner: any): Promise<void> {
+    await queryRunner.query('SELECT RELEASE_ALL_LOCKS()').catch(() => { });
+    await queryRunner.release().catch(() => { });
+  }
+
+  private async getLock(
+    key: string,
+    timeoutSeconds: number,
+    options: LockBackendAcquireOptions,
+  ): Promise<LockLease | null> {
+    this.assertSupported(options);
+
+    const lockId = this.generateLockName(key);
+    const queryRunner = this.dataSource.createQueryRunner();
+    // 服务关闭时断开连接，中断等待中的 GET_LOCK
+    const stopAbortListener = timeoutSeconds > 0 ? destroyOnAbort(options.signal, queryRunner) : () => { };
+
+    try {
+      await queryRunner.connect();
+      const result = await queryRunner.query(
+        'SELECT GET_LOCK(?, ?) AS acquired',
+        [lockId, timeoutSeconds],
+      );
+
+      // 1：成功，0：超时，NULL：出错
+      if (Number(result[0]?.acquired) === 1) {
+        return { key, lockId, session: queryRunner };
+      }
+
+      await queryRunner.release();
+      return null;
+    } catch (error) {
+      await queryRunner.release().catch(() => { });
+      throw error;
+    } finally {
+      stopAbortListener();
+    }
+  }
+}
@@ -0,0 +1,454 @@
+import { EventEmitter } from 'events';
+import { PostgresAdvisoryBackend } from './postgres-advisory.backend';
+
+describe('PostgresAdvisoryBackend', () => {
+  let backend: PostgresAdvisoryBackend;
+  let legacyBackend: PostgresAdvisoryBackend;
+  let dataSourceMock: any;
+  let queryRunnerMock: any;
+
+  beforeEach(() => {
+    queryRunnerMock = {
+      connect: jest.fn().mockResolvedValue(undefined),
+      query: jest.fn().mockResolvedValue(undefined),
+      release: jest.fn().mockResolvedValue(undefined),
+    };
+
+    dataSourceMock = {
+      query: jest.fn().mockResolvedValue([]),
+      createQueryRunner: jest.fn().mockReturnValue(queryRunnerMock),
+    };
+
+    backend = new PostgresAdvisoryBackend(dataSourceMock);
+    legacyBackend = new PostgresAdvisoryBackend(dataSourceMock, { keyAlgorithm: 'legacy' });
+  });
+
+  describe('acquire', () => {
+    it('should hold the lock on a dedicated query runner', async () => {
+      const lease = await backend.acquire('test-key', { timeout: 1000 });
+
+      expect(lease).toEqual({
+        key: 'test-key',
+        lockId: backend.generateLockKey('test-key'),
+        mode: 'exclusive',
+        session: queryRunnerMock,
+      });
+      expect(queryRunnerMock.query).toHaveBeenCalledWith(
+        'SELECT pg_advisory_lock($1)',
+        [backend.generateLockKey('test-key')],
+      );
+      expect(queryRunnerMock.release).not.toHaveBeenCalled();
+    });
+
+    it('should bound the wait with a transaction-local lock_timeout', async () => {
+      await backend.acquire('test-key', { timeout: 1500 });
+
+      expect(queryRunnerMock.query.mock.calls.map(([sql]) => sql)).toEqual([
+        'BEGIN',
+        "SELECT set_config('lock_timeout', $1, true)",
+        'SELECT pg_advisory_lock($1)',
+        'COMMIT',
+      ]);
+      expect(queryRunnerMock.query).toHaveBeenCalledWith(expect.any(String), ['1500ms']);
+    });
+
+    it('should return null when lock_timeout cancels the wait', async () => {
+      const timeoutError = Object.assign(new Error('canceling statement due to lock timeout'), { code: '55P03' });
+      queryRunnerMock.query.mockImplementation(async (sql: string) => {
+        if (sql.startsWith('SELECT pg_advisory_lock')) {
+          throw timeoutError;
+        }
+      });
+
+      await expect(backend.acquire('test-key', { timeout: 100 })).resolves.toBeNull();
+      expect(queryRunnerMock.query).toHaveBeenCalledWith('ROLLBACK');
+      expect(queryRunnerMock.release).toHaveBeenCalled();
+    });
+
+    it('should release the query runner when the query fails', async () => {
+      queryRunnerMock.query.mockRejectedValue(new Error('Connection error'));
+
+      await expect(backend.acquire('test-key', { timeout: 1000 })).rejects.toThrow('Connection error');
+      expect(queryRunnerMock.release).toHaveBeenCalled();
+    });
+
+    it('should destroy the waiting connection when the signal aborts', async () => {
+      const controller = new AbortController();
+      const shutdownError = new Error('Lock service is shutting down');
+      queryRunnerMock.releasePostgresConnection = jest.fn().mockResolvedValue(undefined);
+      queryRunnerMock.query.mockImplementation((sql: string) => {
+        if (!sql.startsWith('SELECT pg_advisory_lock')) {
+          return Promise.resolve(undefined);
+        }
+        return new Promise((_, reject) => {
+          controller.signal.addEventListener('abort', () => reject(shutdownError));
+        });
+      });
+
+      const acquiring = backend.acquire('test-key', { timeout: 1000, signal: controller.signal });
+      await new Promise((resolve) => setImmediate(resolve));
+      controller.abort();
+
+      await expect(acquiring).rejects.toThrow(shutdownError);
+      expect(queryRunnerMock.releasePostgresConnection).toHaveBeenCalled();
+    });
+  });
+
+  describe('tryAcquire', () => {
+    it('should return null and release the runner when the lock is held', async () => {
+      queryRunnerMock.query.mockResolvedValue([{ locked: false }]);
+
+      const lease = await backend.tryAcquire('test-key', { timeout: 1000 });
+
+      expect(lease).toBeNull();
+      expect(queryRunnerMock.release).toHaveBeenCalled();
+    });
+
+    it('should use the shared variant in shared mode', async () => {
+      queryRunnerMock.query.mockResolvedValue([{ locked: true }]);
+
+      const lease = await backend.tryAcquire('test-key', { timeout: 1000, mode: 'shared' });
+      await backend.release('test-key', lease);
+
+      expect(queryRunnerMock.query).toHaveBeenCalledWith(
+        'SELECT pg_try_advisory_lock_shared($1) AS locked',
+        [lease.lockId],
+      );
+      expect(queryRunnerMock.query).toHaveBeenLastCalledWith(
+        'SELECT pg_advisory_unlock_shared($1) AS unlocked',
+        [lease.lockId],
+      );
+    });
+
+    it('should return a lease when the lock is free', async () => {
+      queryRunnerMock.query.mockResolvedValue([{ locked: true }]);
+
+      const lease = await backend.tryAcquire('test-key', { timeout: 1000 });
+
+      expect(lease.session).toBe(queryRunnerMock);
+      expect(queryRunnerMock.release).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('fence', () => {
+    it('should create the sequence table once and increment on the lock session', async () => {
+      const lease = await backend.acquire('test-key', { timeout: 1000 });
+      queryRunnerMock.query.mockResolvedValue([{ fence: '7' }]);
+
+      expect(await backend.fence(lease)).toBe(7);
+      await backend.fence(lease);
+
+      expect(dataSourceMock.query).toHaveBeenCalledTimes(1);
+      expect(dataSourceMock.query).toHaveBeenCalledWith(expect.stringContaining('CREATE TABLE IF NOT EXISTS distributed_lock_fences'));
+      expect(queryRunnerMock.query).toHaveBeenLastCalledWith(
+        expect.stringContaining('ON CONFLICT (lock_key) DO UPDATE'),
+        ['test-key'],
+      );
+    });
+  });
+
+  describe('job runs', () => {
+    it('should store and read the last run timestamp', async () => {
+      (dataSourceMock.query as jest.Mock)
+        .mockResolvedValueOnce(undefined)
+        .mockResolvedValueOnce(undefined)
+        .mockResolvedValueOnce([{ last_run: '1700000000000' }]);
+
+      await backend.setLastRun('nightly', 1700000000000);
+      expect(await backend.getLastRun('nightly')).toBe(1700000000000);
+
+      expect(dataSourceMock.query).toHaveBeenCalledWith(expect.stringContaining('CREATE TABLE IF NOT EXISTS distributed_lock_job_runs'));
+      expect(dataSourceMock.query).toHaveBeenCalledWith(
+        expect.stringContaining('ON CONFLICT (job_key) DO UPDATE'),
+        ['nightly', 1700000000000],
+      );
+    });
+  });
+
+  describe('transaction scope', () => {
+    let transactionRunner: any;
+
+    beforeEach(() => {
+      transactionRunner = {
+        isTransactionActive: true,
+        query: jest.fn().mockResolvedValue([{ locked: true }]),
+        release: jest.fn(),
+      };
+    });
+
+    it('should take pg_advisory_xact_lock on the caller runner', async () => {
+      const lease = await backend.acquire('test-key', {
+        timeout: 1000,
+        scope: 'transaction',
+        queryRunner: transactionRunner,
+      });
+
+      expect(lease.scope).toBe('transaction');
+      expect(transactionRunner.query).toHaveBeenCalledWith(
+        'SELECT pg_try_advisory_xact_lock($1) AS locked',
+        [lease.lockId],
+      );
+      expect(dataSourceMock.createQueryRunner).not.toHaveBeenCalled();
+    });
+
+    it('should leave release to the transaction', async () => {
+      const lease = await backend.tryAcquire('test-key', {
+        timeout: 1000,
+        scope: 'transaction',
+        queryRunner: transactionRunner,
+      });
+
+      await expect(backend.release('test-key', lease)).resolves.toBe(true);
+      expect(transactionRunner.query).toHaveBeenCalledTimes(1);
+      expect(transactionRunner.release).not.toHaveBeenCalled();
+    });
+
+    it('should poll until the timeout without aborting the transaction', async () => {
+      transactionRunner.query.mockResolvedValue([{ locked: false }]);
+
+      const lease = await backend.acquire('test-key', {
+        timeout: 120,
+        scope: 'transaction',
+        queryRunner: transactionRunner,
+      });
+
+      expect(lease).toBeNull();
+      expect(transactionRunner.query.mock.calls.length).toBeGreaterThan(1);
+    });
+
+    it('should poll at the intervals given by pollDelay', async () => {
+      transactionRunner.query.mockResolvedValue([{ locked: false }]);
+      const pollDelay = jest.fn((attempt: number) => (attempt < 4 ? 1 : null));
+
+      const lease = await backend.acquire('test-key', {
+        timeout: 30000,
+        scope: 'transaction',
+        queryRunner: transactionRunner,
+        pollDelay,
+      });
+
+      expect(lease).toBeNull();
+      expect(transactionRunner.query).toHaveBeenCalledTimes(4);
+      expect(pollDelay).toHaveBeenCalledTimes(4);
+    });
+
+    it('should discover the transaction from the data source manager', () => {
+      dataSourceMock.manager = { queryRunner: transactionRunner };
+
+      expect(backend.currentTransaction()).toBe(transactionRunner);
+    });
+  });
+
+  describe('release', () => {
+    it('should unlock on the same query runner and release it', async () => {
+      queryRunnerMock.query.mockResolvedValue([{ unlocked: true }]);
+      const lease = await backend.acquire('test-key', { timeout: 1000 });
+
+      await expect(backend.release('test-key', lease)).resolves.toBe(true);
+      expect(queryRunnerMock.query).toHaveBeenLastCalledWith(
+        'SELECT pg_advisory_unlock($1) AS unlocked',
+        [lease.lockId],
+      );
+      expect(queryRunnerMock.release).toHaveBeenCalled();
+      expect(dataSourceMock.query).not.toHaveBeenCalled();
+    });
+
+    it('should destroy the connection instead of pooling it when unlocking fails', async () => {
+      queryRunnerMock.releasePostgresConnection = jest.fn().mockResolvedValue(undefined);
+      const lease = await backend.acquire('test-key', { timeout: 1000 });
+      const connectionError = new Error('Connection terminated');
+      queryRunnerMock.query.mockRejectedValueOnce(connectionError);
+
+      await expect(backend.release('test-key', lease)).rejects.toThrow(connectionError);
+      expect(queryRunnerMock.releasePostgresConnection).toHaveBeenCalledWith(connectionError);
+      expect(queryRunnerMock.release).not.toHaveBeenCalled();
+    });
+
+    it('should skip the unlock query on a connection known to be dead', async () => {
+      queryRunnerMock.releasePostgresConnection = jest.fn().mockResolvedValue(undefined);
+      const lease = await backend.acquire('test-key', { timeout: 1000 });
+      queryRunnerMock.query.mockClear();
+      lease.connectionError = new Error('heartbeat failed');
+
+      await expect(backend.release('test-key', lease)).resolves.toBe(true);
+      expect(queryRunnerMock.query).not.toHaveBeenCalled();
+      expect(queryRunnerMock.releasePostgresConnection).toHaveBeenCalledWith(lease.connectionError);
+    });
+  });
+
+  describe('acquireMany', () => {
+    it('should lock all keys on one runner in hashed key order', async () => {
+      const keys = ['account:2', 'account:1', 'account:3'];
+      const lease = await backend.acquireMany(keys, { timeout: 1000 }, true);
+
+      const lockIds = queryRunnerMock.query.mock.calls
+        .filter(([sql]) => sql === 'SELECT pg_advisory_lock($1)')
+        .map(([, params]) => params[0]);
+      const expected = keys.map((key) => backend.generateLockKey(key) as string)
+        .sort((a, b) => (BigInt(a) < BigInt(b) ? -1 : 1));
+
+      expect(dataSourceMock.createQueryRunner).toHaveBeenCalledTimes(1);
+      expect(lockIds).toEqual(expected);
+      expect(lease.session).toBe(queryRunnerMock);
+      expect(lease.members.map((member) => member.lockId)).toEqual(expected);
+    });
+
+    it('should unlock every member on release', async () => {
+      const lease = await backend.acquireMany(['account:1', 'account:2'], { timeout: 1000 }, true);
+      queryRunnerMock.query.mockClear();
+      queryRunnerMock.query.mockResolvedValue([{ unlocked: true }]);
+
+      await expect(backend.release(lease.key, lease)).resolves.toBe(true);
+      expect(queryRunnerMock.query.mock.calls.map(([, params]) => params[0]))
+        .toEqual(lease.members.map((member) => member.lockId));
+      expect(queryRunnerMock.release).toHaveBeenCalledTimes(1);
+    });
+
+    it('should roll back acquired locks when one is held', async () => {
+      queryRunnerMock.query
+        .mockResolvedValueOnce([{ locked: true }])
+        .mockResolvedValueOnce([{ locked: false }]);
+
+      expect(await backend.acquireMany(['account:1', 'account:2'], { timeout: 1000 }, false)).toBeNull();
+      expect(queryRunnerMock.query).toHaveBeenLastCalledWith('SELECT pg_advisory_unlock_all()');
+      expect(queryRunnerMock.release).toHaveBeenCalled();
+    });
+
+    it('should roll back acquired locks when lock_timeout fires', async () => {
+      let locks = 0;
+      queryRunnerMock.query.mockImplementation(async (sql: string) => {
+        if (sql === 'SELECT pg_advisory_lock($1)' && ++locks === 2) {
+          throw Object.assign(new Error('canceling statement due to lock timeout'), { code: '55P03' });
+        }
+      });
+
+      expect(await backend.acquireMany(['account:1', 'account:2'], { timeout: 1000 }, true)).toBeNull();
+      expect(queryRunnerMock.query).toHaveBeenCalledWith('ROLLBACK');
+      expect(queryRunnerMock.query).toHaveBeenLastCalledWith('SELECT pg_advisory_unlock_all()');
+    });
+  });
+
+  describe('connection health', () => {
+    it('should ping the lock connection with SELECT 1', async () => {
+      const lease = await backend.acquire('test-key', { timeout: 1000 });
+
+      await backend.ping(lease);
+      expect(queryRunnerMock.query).toHaveBeenLastCalledWith('SELECT 1');
+
+      queryRunnerMock.query.mockRejectedValueOnce(new Error('Connection terminated'));
+      await expect(backend.ping(lease)).rejects.toThrow('Connection terminated');
+    });
+
+    it('should report errors on the underlying connection until unwatched', async () => {
+      queryRunnerMock.databaseConnection = new EventEmitter();
+      const lease = await backend.acquire('test-key', { timeout: 1000 });
+      const onLost = jest.fn();
+
+      const unwatch = backend.watch(lease, onLost);
+      queryRunnerMock.databaseConnection.emit('error', new Error('Connection reset'));
+      expect(onLost).toHaveBeenCalledWith(new Error('Connection reset'));
+
+      unwatch();
+      queryRunnerMock.databaseConnection.emit('end');
+      expect(onLost).toHaveBeenCalledTimes(1);
+      expect(queryRunnerMock.databaseConnection.listenerCount('error')).toBe(0);
+    });
+  });
+
+  describe('generateLockKey', () => {
+    it('should generate a signed 64-bit key', () => {
+      const lockKey = backend.generateLockKey('test-key');
+
+      expect(typeof lockKey).toBe('string');
+      expect(lockKey).toBe(backend.generateLockKey('test-key'));
+      expect(BigInt(lockKey)).toBe(BigInt.asIntN(64, BigInt(lockKey)));
+    });
+
+    it('should match the reference FNV-1a 64-bit values', () => {
+      // FNV-1a 64: '' -> 0xcbf29ce484222325, 'a' -> 0xaf63dc4c8601ec8c
+      expect(backend.generateLockKey('')).toBe(BigInt.asIntN(64, 0xcbf29ce484222325n).toString());
+      expect(backend.generateLockKey('a')).toBe(BigInt.asIntN(64, 0xaf63dc4c8601ec8cn).toString());
+    });
+
+    it('should not collide on many similar keys', () => {
+      const keys = Array.from({ length: 10000 }, (_, i) => `order:${i}`);
+      const hashes = new Set(keys.map((key) => backend.generateLockKey(key)));
+
+      expect(hashes.size).toBe(keys.length);
+    });
+  });
+
+  describe('isHeld', () => {
+    it('should query classid/objid/objsubid of the bigint key', async () => {
+      dataSourceMock.query.mockResolvedValue([{ objid: 1 }]);
+      const unsigned = BigInt.asUintN(64, BigInt(backend.generateLockKey('test-key')));
+
+      await expect(backend.isHeld('test-key')).resolves.toBe(true);
+      expect(dataSourceMock.query).toHaveBeenCalledWith(
+        expect.stringContaining('objsubid = 1'),
+        ['advisory', Number(unsigned >> 32n), Number(unsigned & 0xffffffffn)],
+      );
+    });
+
+    it('should use classid 0 for legacy keys', async () => {
+      await legacyBackend.isHeld('test-key');
+
+      expect(dataSourceMock.query).toHaveBeenCalledWith(
+        expect.any(String),
+        ['advisory', 0, legacyBackend.generateLockKey('test-key')],
+      );
+    });
+  });
+
+  describe('generateLockKey (legacy)', () => {
+    it('should generate consistent hash for same key', () => {
+      const key1 = <number>legacyBackend.generateLockKey('test-key');
+      const key2 = <number>legacyBackend.generateLockKey('test-key');
+
+      expect(key1).toBe(key2);
+      expect(typeof key1).toBe('number');
+      expect(Math.abs(key1)).toBe(key1); // 确保是正数
+      expect(key1).toBeGreaterThanOrEqual(0);
+      expect(key1).toBeLessThan(2147483647); // PostgreSQL限制
+    });
+
+    it('should generate different hashes for different keys', () => {
+      const key1 = <number>legacyBackend.generateLockKey('key1');
+      const key2 = <number>legacyBackend.generateLockKey('key2');
+
+      expect(key1).not.toBe(key2);
+    });
+
+    it('should handle edge cases properly', () => {
+      // 测试空字符串
+      const emptyKey = legacyBackend.generateLockKey('');
+      expect(typeof emptyKey).toBe('number');
+      expect(emptyKey).toBeGreaterThanOrEqual(0);
+
+      // 测试特殊字符
+      const specialKey = legacyBackend.generateLockKey('测试🔒特殊字符');
+      expect(typeof specialKey).toBe('number');
+      expect(specialKey).toBeGreaterThanOrEqual(0);
+
+      // 测试长字符串
+      const longKey = legacyBackend.generateLockKey('a'.repeat(1000));
+      expect(typeof longKey).toBe('number');
+      expect(longKey).toBeGreaterThanOrEqual(0);
+    });
+
+    it('should have good hash distribution', () => {
+      // 测试哈希分布：相似字符串应该产生不同的结果
+      const keys = ['key1', 'key2', 'key3', 'key4', 'key5'];
+      const hashes = keys.map(key => <number>legacyBackend.generateLockKey(key));
+
+      // 检查是否有重复
+      const uniqueHashes = new Set(hashes);
+      expect(uniqueHashes.size).toBe(keys.length);
+
+      // 检查分布范围
+      const min = Math.min(...hashes);
+      const max = Math.max(...hashes);
+      expect(max - min).toBeGreaterThan(1000); // 应该有合理的分布
+    });
+  });
+});
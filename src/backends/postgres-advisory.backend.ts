@@ -0,0 +1,449 @@
+import { Logger } from '@nestjs/common';
+
+import {
+  AnyDataSource,
+  LockBackend,
+  LockBackendAcquireOptions,
+  LockLease,
+  LockMode,
+  SqlLockBackendOptions,
+} from '../interfaces';
+import { DEFAULT_FENCING_TABLE, DEFAULT_JOB_RUNS_TABLE } from '../distributed-lock.constants';
+import { destroyOnAbort, destroyQueryRunner, pingQueryRunner, watchQueryRunner } from './query-runner.utils';
+import { ensureTable } from './sql-table.utils';
+
+/** lock_timeout 触发时PostgreSQL返回的错误码 */
+const LOCK_NOT_AVAILABLE = '55P03';
+
+/** 事务级锁轮询等待的最大间隔（毫秒） */
+const MAX_XACT_POLL_INTERVAL = 1000;
+
+const FNV64_OFFSET_BASIS = 0xcbf29ce484222325n;
+const FNV64_PRIME = 0x100000001b3n;
+
+/**
+ * 基于PostgreSQL pg_advisory_lock 的锁后端
+ * 每把锁占用一个独立的QueryRunner，锁随会话保持直到显式释放
+ */
+export class PostgresAdvisoryBackend implements LockBackend {
+  readonly name = 'postgres';
+
+  private readonly logger = new Logger(PostgresAdvisoryBackend.name);
+  private readonly keyAlgorithm: SqlLockBackendOptions['keyAlgorithm'];
+  private readonly fencingTable: string;
+  private readonly jobRunsTable: string;
+  private readonly tables = new Map<string, Promise<void>>();
+
+  constructor(
+    private readonly dataSource: AnyDataSource,
+    options: SqlLockBackendOptions = {},
+  ) {
+    this.keyAlgorithm = options.keyAlgorithm ?? 'fnv1a64';
+    this.fencingTable = options.fencingTable ?? DEFAULT_FENCING_TABLE;
+    this.jobRunsTable = options.jobRunsTable ?? DEFAULT_JOB_RUNS_TABLE;
+  }
+
+  async acquire(key: string, options: LockBackendAcquireOptions): Promise<LockLease | null> {
+    if (options.scope === 'transaction') {
+      return this.acquireInTransaction(key, options, true);
+    }
+
+    const lockId = this.generateLockKey(key);
+    const mode = options.mode ?? 'exclusive';
+    const queryRunner = this.dataSource.createQueryRunner();
+    // 服务关闭时断开连接，中断等待中的 pg_advisory_lock
+    const stopAbortListener = destroyOnAbort(options.signal, queryRunner);
+
+    try {
+      await queryRunner.connect();
+
+      if (await this.lockWithTimeout(queryRunner, lockId, mode, options.timeout)) {
+        // 注意：不释放queryRunner，保持会话和锁
+        return { key, lockId, mode, session: queryRunner };
+      }
+
+      this.logger.debug(`lock wait timed out after ${options.timeout}ms: ${lockId} original key: ${key}`);
+      await queryRunner.release().catch(() => { });
+      return null;
+    } catch (error) {
+      await queryRunner.release().catch(() => { });
+      throw error;
+    } finally {
+      stopAbortListener();
+    }
+  }
+
+  async tryAcquire(key: string, options: LockBackendAcquireOptions): Promise<LockLease | null> {
+    if (options.scope === 'transaction') {
+      return this.acquireInTransaction(key, options, false);
+    }
+
+    const lockId = this.generateLockKey(key);
+    const mode = options.mode ?? 'exclusive';
+    const queryRunner = this.dataSource.createQueryRunner();
+
+    try {
+      await queryRunner.connect();
+
+      // 获取成功时需要保持queryRunner和锁
+      if (await this.tryLock(queryRunner, lockId, mode)) {
+        return { key, lockId, mode, session: queryRunner };
+      }
+
+      await queryRunner.release();
+      return null;
+    } catch (error) {
+      await queryRunner.release().catch(() => { });
+      throw error;
+    }
+  }
+
+  /**
+   * 在同一个QueryRunner上获取多把锁
+   * 按哈希后的键排序，所有进程以相同顺序加锁，避免互相等待形成死锁；
+   * 任意一把锁未能获取时释放已获取的锁
+   */
+  async acquireMany(keys: string[], options: LockBackendAcquireOptions, wait: boolean): Promise<LockLease | null> {
+    if (options.scope === 'transaction') {
+      throw new Error('Multi-key locks cannot be transaction-scoped on the postgres backend');
+    }
+
+    const mode = options.mode ?? 'exclusive';
+    const members: LockLease[] = keys
+      .map((key) => ({ key, lockId: this.generateLockKey(key), mode }))
+      .sort((a, b) => this.compareLockKeys(a.lockId, b.lockId) || a.key.localeCompare(b.key));
+
+    const queryRunner = this.dataSource.createQueryRunner();
+    const deadline = Date.now() + options.timeout;
+    const stopAbortListener = wait ? destroyOnAbort(options.signal, queryRunner) : () => { };
+
+    try {
+      await queryRunner.connect();
+
+      // 同一会话重复获取同一个键（哈希冲突）会直接成功并计数，释放时逐个解锁即可
+      for (const member of members) {
+        const remaining = deadline - Date.now();
+        const locked = wait
+          ? remaining > 0 && await this.lockWithTimeout(queryRunner, member.lockId, mode, remaining)
+          : await this.tryLock(queryRunner, member.lockId, mode);
+
+        if (!locked) {
+          this.logger.debug(`multi-key lock not available: ${member.lockId} original key: ${member.key}`);
+          await this.abandonSession(queryRunner);
+          return null;
+        }
+      }
+
+      return {
+        key: keys.join(','),
+        lockId: members.map((member) => member.lockId).join(','),
+        mode,
+        session: queryRunner,
+        members: members.map((member) => ({ ...member, session: queryRunner })),
+      };
+    } catch (error) {
+      await this.abandonSession(queryRunner);
+      throw error;
+    } finally {
+      stopAbortListener();
+    }
+  }
+
+  async release(key: string, lease?: LockLease): Promise<boolean> {
+    // 事务级锁由PostgreSQL在事务结束时释放，QueryRunner也属于调用方
+    if (lease?.scope === 'transaction') {
+      return true;
+    }
+
+    const queryRunner = lease?.session;
+
+    if (!queryRunner) {
+      // 没有持锁会话时只能在连接池的任意连接上尝试释放
+      const result = await this.dataSource.query(
+        'SELECT pg_advisory_unlock($1) AS unlocked',
+        [this.generateLockKey(key)],
+      );
+      return result[0]?.unlocked === true;
+    }
+
+    if (lease.connectionError) {
+      // 连接已确认不可用，解锁语句同样会卡住；销毁连接后PostgreSQL会释放会话上的锁
+      await this.destroySession(key, queryRunner, lease.connectionError);
+      return true;
+    }
+
+    let unlocked = true;
+    try {
+      // 使用相同的queryRunner释放锁，共享锁需要用对应的unlock函数；多键租约逐个解锁
+      for (const member of lease.members ?? [lease]) {
+        const result = await queryRunner.query(
+          `SELECT ${this.lockFunction('pg_advisory_unlock', member.mode)}($1) AS unlocked`,
+          [member.lockId],
+        );
+        unlocked = unlocked && result?.[0]?.unlocked !== false;
+      }
+    } catch (error) {
+      // 解锁失败说明连接已损坏，销毁连接而不是放回池中
+      await this.destroySession(key, queryRunner, error);
+      throw error;
+    }
+
+    await queryRunner.release().catch((err) => {
+      this.logger.error(`Failed to release query runner for ${key}`, err);
+    });
+    return unlocked;
+  }
+
+  async isHeld(key: string): Promise<boolean> {
+    // 单个bigint参数的advisory lock在pg_locks中表示为：
+    // classid = 高32位，objid = 低32位，objsubid = 1
+    const { classid, objid } = this.splitLockKey(this.generateLockKey(key));
+
+    const result = await this.dataSource.query(
+      `SELECT objid FROM pg_locks
+       WHERE locktype = $1 AND database = (SELECT oid FROM pg_database WHERE datname = current_database())
+         AND classid = $2 AND objid = $3 AND objsubid = 1 AND granted = true`,
+      ['advisory', classid, objid],
+    );
+
+    return result.length > 0;
+  }
+
+  async extend(_lease: LockLease, _ttl: number): Promise<boolean> {
+    // advisory lock 没有过期时间，持有会话即持有锁
+    return true;
+  }
+
+  async fence(lease: LockLease): Promise<number> {
+    await this.ensureFencingTable();
+
+    // 在持锁的会话（或调用方事务）上递增，与锁的生命周期保持一致
+    const result = await lease.session.query(
+      `INSERT INTO ${this.fencingTable} (lock_key, fence) VALUES ($1, 1)
+       ON CONFLICT (lock_key) DO UPDATE SET fence = ${this.fencingTable}.fence + 1
+       RETURNING fence`,
+      [lease.key],
+    );
+    // bigint 列由驱动以字符串返回
+    return Number(result[0].fence);
+  }
+
+  async getLastRun(key: string): Promise<number | null> {
+    await this.ensureJobRunsTable();
+
+    const result = await this.dataSource.query(
+      `SELECT last_run FROM ${this.jobRunsTable} WHERE job_key = $1`,
+      [key],
+    );
+    return result.length ? Number(result[0].last_run) : null;
+  }
+
+  async setLastRun(key: string, time: number): Promise<void> {
+    await this.ensureJobRunsTable();
+
+    await this.dataSource.query(
+      `INSERT INTO ${this.jobRunsTable} (job_key, last_run) VALUES ($1, $2)
+       ON CONFLICT (job_key) DO UPDATE SET last_run = EXCLUDED.last_run`,
+      [key, time],
+    );
+  }
+
+  async ping(lease: LockLease): Promise<void> {
+    await pingQueryRunner(lease);
+  }
+
+  watch(lease: LockLease, onLost: (error: Error) => void): () => void {
+    return watchQueryRunner(lease, onLost);
+  }
+
+  currentTransaction(): any {
+    // typeorm-transactional 会把 dataSource.manager 替换为当前事务的 EntityManager
+    return this.dataSource.manager?.queryRunner;
+  }
+
+  /**
+   * 在调用方事务的QueryRunner上获取事务级锁
+   * 使用 pg_try_advisory_xact_lock 轮询等待：lock_timeout 触发的错误会中止调用方的整个事务
+   */
+  private async acquireInTransaction(
+    key: string,
+    options: LockBackendAcquireOptions,
+    wait: boolean,
+  ): Promise<LockLease | null> {
+    const { queryRunner } = options;
+    const lockId = this.generateLockKey(key);
+    const mode = options.mode ?? 'exclusive';
+    const deadline = Date.now() + options.timeout;
+    let interval = 50;
+
+    for (let attempt = 1; ; attempt++) {
+      const result = await queryRunner.query(
+        `SELECT ${this.lockFunction('pg_try_advisory_xact_lock', mode)}($1) AS locked`,
+        [lockId],
+      );
+
+      if (result[0]?.locked === true) {
+        return { key, lockId, mode, scope: 'transaction', session: queryRunner };
+      }
+
+      const remaining = deadline - Date.now();
+      // 调用方的事务连接不属于锁服务，关闭时只停止轮询
+      if (!wait || remaining <= 0 || options.signal?.aborted) {
+        return null;
+      }
+
+      // 调用方配置了 retryStrategy 时按其计算间隔，否则从50毫秒开始倍增
+      const delay = options.pollDelay ? options.pollDelay(attempt) : interval;
+      if (delay === null) {
+        return null;
+      }
+      await new Promise((resolve) => setTimeout(resolve, Math.min(Math.max(0, delay), remaining)));
+      interval = Math.min(interval * 2, MAX_XACT_POLL_INTERVAL);
+    }
+  }
+
+  /**
+   * 在事务内设置 lock_timeout 后获取会话级锁，超时由PostgreSQL取消等待中的查询；
+   * 会话级advisory lock在事务提交后仍然保持，lock_timeout则随事务结束恢复
+   * @returns 是否获取成功，超时返回false
+   */
+  private async lockWithTimeout(
+    queryRunner: any,
+    lockId: string | number,
+    mode: LockMode,
+    timeout: number,
+  ): Promise<boolean> {
+    try {
+      await queryRunner.query('BEGIN');
+      await queryRunner.query(
+        "SELECT set_config('lock_timeout', $1, true)",
+        [`${Math.max(1, Math.ceil(timeout))}ms`],
+      );
+      await queryRunner.query(`SELECT ${this.lockFunction('pg_advisory_lock', mode)}($1)`, [lockId]);
+      await queryRunner.query('COMMIT');
+      return true;
+    } catch (error) {
+      await queryRunner.query('ROLLBACK').catch(() => { });
+
+      if (error?.code === LOCK_NOT_AVAILABLE || error?.driverError?.code === LOCK_NOT_AVAILABLE) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  private async tryLock(queryRunner: any, lockId: string | number, mode: LockMode): Promise<boolean> {
+    const result = await queryRunner.query(
+      `SELECT ${this.lockFunction('pg_try_advisory_lock', mode)}($1) AS locked`,
+      [lockId],
+    );
+    return result[0]?.locked === true;
+  }
+
+  /**
+   * 释放会话上已获取的所有advisory lock并归还连接
+   */
+  private async abandonSession(queryRunner: any): Promise<void> {
+    await queryRunner.query('SELECT pg_advisory_unlock_all()').catch(() => { });
+    await queryRunner.release().catch(() => { });
+  }
+
+  private compareLockKeys(a: string | number, b: string | number): number {
+    const left = BigInt(a);
+    const right = BigInt(b);
+    return left < right ? -1 : left > right ? 1 : 0;
+  }
+
+  private async destroySession(key: string, queryRunner: any, error: Error): Promise<void> {
+    await destroyQueryRunner(queryRunner, error).catch((err) => {
+      this.logger.error(`Failed to destroy query runner for ${key}`, err);
+    });
+  }
+
+  private ensureFencingTable(): Promise<void> {
+    return ensureTable(
+      this.dataSource,
+      this.tables,
+      `CREATE TABLE IF NOT EXISTS ${this.fencingTable} (
+         lock_key text PRIMARY KEY,
+         fence bigint NOT NULL
+       )`,
+    );
+  }
+
+  private ensureJobRunsTable(): Promise<void> {
+    return ensureTable(
+      this.dataSource,
+      this.tables,
+      `CREATE TABLE IF NOT EXISTS ${this.jobRunsTable} (
+         job_key text PRIMARY KEY,
+         last_run bigint NOT NULL
+       )`,
+    );
+  }
+
+  private lockFunction(name: string, mode: LockMode = 'exclusive'): string {
+    return mode === 'shared' ? `${name}_shared` : name;
+  }
+
+  /**
+   * 生成advisory lock键
+   * 默认使用64位哈希（以字符串形式传给 pg_advisory_lock(bigint)），
+   * legacy 模式保留旧版的31位哈希，便于新旧版本滚动升级期间互斥
+   */
+  generateLockKey(key: string): string | number {
+    if (this.keyAlgorithm === 'legacy') {
+      return this.generateLegacyLockKey(key);
+    }
+
+    return BigInt.asIntN(64, this.fnv1a64(key)).toString();
+  }
+
+  private generateLegacyLockKey(key: string): number {
+    // 使用更强的哈希算法确保唯一性
+    // PostgreSQL advisory lock接受64位有符号整数
+    const hash = this.fnv1a32(key);
+
+    // 确保是正数并且在合理范围内
+    return Math.abs(hash) % 2147483647; // PostgreSQL最大正整数
+  }
+
+  private splitLockKey(lockId: string | number): { classid: number; objid: number } {
+    const unsigned = BigInt.asUintN(64, BigInt(lockId));
+
+    return {
+      classid: Number(unsigned >> 32n),
+      objid: Number(unsigned & 0xffffffffn),
+    };
+  }
+
+  /**
+   * FNV-1a 64位哈希算法（按UTF-8字节计算）
+   */
+  private fnv1a64(str: string): bigint {
+    let hash = FNV64_OFFSET_BASIS;
+
+    for (const byte of Buffer.from(str, 'utf8')) {
+      hash ^= BigInt(byte);
+      hash = BigInt.asUintN(64, hash * FNV64_PRIME);
+    }
+
+    return hash;
+  }
+
+  /**
+   * FNV-1a 32位哈希算法
+   * 具有良好的分布性和较低的冲突率
+   */
+  private fnv1a32(str: string): number {
+    let hash = 0x811c9dc5; // FNV偏移基础值
+
+    for (let i = 0; i < str.length; i++) {
+      hash ^= str.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193); // FNV质数
+    }
+
+    // 确保结果在32位范围内
+    return hash >>> 0;
+  }
+}
@@ -0,0 +1,73 @@
+import { LockLease } from '../interfaces';
+
+/**
+ * 在持锁的QueryRunner上执行 SELECT 1，连接不可用时抛出异常
+ * 事务级锁的QueryRunner属于调用方，不在其事务中插入查询
+ */
+export async function pingQueryRunner(lease: LockLease): Promise<void> {
+  const queryRunner = lease.session;
+  if (!queryRunner || lease.scope === 'transaction') {
+    return;
+  }
+
+  if (queryRunner.isReleased) {
+    throw new Error(`Lock connection for ${lease.key} has been released`);
+  }
+
+  await queryRunner.query('SELECT 1');
+}
+
+/**
+ * 监听持锁QueryRunner底层连接的 error / end 事件
+ * @returns 取消监听的函数
+ */
+export function watchQueryRunner(lease: LockLease, onLost: (error: Error) => void): () => void {
+  // TypeORM 的 QueryRunner 在 connect() 后把驱动连接保存在 databaseConnection 上
+  const connection = lease.session?.databaseConnection;
+  if (typeof connection?.on !== 'function') {
+    return () => { };
+  }
+
+  const onError = (error: Error) => onLost(error);
+  const onEnd = () => onLost(new Error(`Lock connection for ${lease.key} closed`));
+
+  connection.on('error', onError);
+  connection.on('end', onEnd);
+
+  return () => {
+    connection.removeListener('error', onError);
+    connection.removeListener('end', onEnd);
+  };
+}
+
+/**
+ * 销毁QueryRunner的底层连接，不放回连接池
+ * TypeORM 的 release() 不接受错误参数，损坏的连接会被放回池中，因此直接交给驱动处理
+ */
+export async function destroyQueryRunner(queryRunner: any, error: Error): Promise<void> {
+  // PostgreSQL：带错误归还时 pg-pool 会关闭该连接
+  if (typeof queryRunner.releasePostgresConnection === 'function') {
+    await queryRunner.releasePostgresConnection(error);
+    return;
+  }
+
+  // mysql2：destroy 后连接从池中移除，release 不会再归还它
+  queryRunner.databaseConnection?.destroy?.();
+  await queryRunner.release();
+}
+
+/**
+ * 取消信号触发时销毁QueryRunner的连接，中断阻塞中的加锁语句
+ * @returns 取消监听的函数，获取结束后必须调用
+ */
+export function destroyOnAbort(signal: AbortSignal | undefined, queryRunner: any): () => void {
+  if (!signal) {
+    return () => { };
+  }
+
+  const onAbort = () => {
+    destroyQueryRunner(queryRunner, signal.reason ?? new Error('Lock acquisition aborted')).catch(() => { });
+  };
+  signal.addEventListener('abort', onAbort, { once: true });
+  return () => signal.removeEventListener('abort', onAbort);
+}
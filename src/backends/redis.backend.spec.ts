@@ -0,0 +1,234 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { RedisLockBackend } from './redis.backend';
+import { DistributedLockModule } from '../distributed-lock.module';
+import { DistributedLockService } from '../distributed-lock.service';
+import { LockAlreadyHeldException } from '../exceptions';
+import { FakeRedisClient } from '../../test/mocks/redis-client.mock';
+
+describe('RedisLockBackend', () => {
+  let client: FakeRedisClient;
+  let backend: RedisLockBackend;
+
+  beforeEach(() => {
+    client = new FakeRedisClient();
+    backend = new RedisLockBackend({ client, pollInterval: 10 });
+  });
+
+  describe('tryAcquire', () => {
+    it('should acquire with SET NX PX and a unique token', async () => {
+      const setSpy = jest.spyOn(client, 'set');
+
+      const lease = await backend.tryAcquire('test-key', { timeout: 100, ttl: 5000 });
+
+      expect(lease.lockId).toBe('lock:test-key');
+      expect(setSpy).toHaveBeenCalledWith('lock:test-key', lease.session, 'PX', 5000, 'NX');
+      expect(await client.get('lock:test-key')).toBe(lease.session);
+    });
+
+    it('should return null when the key is already held', async () => {
+      await backend.tryAcquire('test-key', { timeout: 100 });
+
+      expect(await backend.tryAcquire('test-key', { timeout: 100 })).toBeNull();
+    });
+  });
+
+  describe('acquire', () => {
+    it('should poll until the holder releases', async () => {
+      const first = await backend.tryAcquire('test-key', { timeout: 100 });
+      setTimeout(() => backend.release('test-key', first), 30);
+
+      const second = await backend.acquire('test-key', { timeout: 1000 });
+
+      expect(second).not.toBeNull();
+      expect(second.session).not.toBe(first.session);
+    });
+
+    it('should return null after the timeout', async () => {
+      await backend.tryAcquire('test-key', { timeout: 100 });
+
+      expect(await backend.acquire('test-key', { timeout: 50 })).toBeNull();
+    });
+
+    it('should wait between attempts as told by pollDelay', async () => {
+      await backend.tryAcquire('test-key', { timeout: 100 });
+      const pollDelay = jest.fn((attempt: number) => (attempt < 3 ? 5 : null));
+
+      expect(await backend.acquire('test-key', { timeout: 30000, pollDelay })).toBeNull();
+      expect(pollDelay.mock.calls.map(([attempt]) => attempt)).toEqual([1, 2, 3]);
+    });
+  });
+
+  describe('release', () => {
+    it('should not delete a lock owned by another token', async () => {
+      const stale = await backend.tryAcquire('test-key', { timeout: 100, ttl: 20 });
+      await new Promise((resolve) => setTimeout(resolve, 30));
+      const current = await backend.tryAcquire('test-key', { timeout: 100 });
+
+      expect(await backend.release('test-key', stale)).toBe(false);
+      expect(await backend.isHeld('test-key')).toBe(true);
+
+      expect(await backend.release('test-key', current)).toBe(true);
+      expect(await backend.isHeld('test-key')).toBe(false);
+    });
+
+    it('should refuse to release without a lease', async () => {
+      await backend.tryAcquire('test-key', { timeout: 100 });
+
+      expect(await backend.release('test-key')).toBe(false);
+      expect(await backend.isHeld('test-key')).toBe(true);
+    });
+  });
+
+  describe('extend', () => {
+    it('should extend only while the token still owns the key', async () => {
+      const lease = await backend.tryAcquire('test-key', { timeout: 100, ttl: 30 });
+
+      expect(await backend.extend(lease, 1000)).toBe(true);
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      expect(await backend.isHeld('test-key')).toBe(true);
+
+      await backend.release('test-key', lease);
+      expect(await backend.extend(lease, 1000)).toBe(false);
+    });
+  });
+
+  describe('fence', () => {
+    it('should increment a per-key counter', async () => {
+      const lease = await backend.tryAcquire('test-key', { timeout: 100, token: 'owner-1' });
+
+      expect(lease.session).toBe('owner-1');
+      expect(await backend.fence(lease)).toBe(1);
+      expect(await backend.fence(lease)).toBe(2);
+      expect(await client.get('fence:lock:test-key')).toBe('2');
+    });
+  });
+
+  describe('with DistributedLockService', () => {
+    let module: TestingModule;
+    let service: DistributedLockService;
+
+    beforeEach(async () => {
+      module = await Test.createTestingModule({
+        imports: [DistributedLockModule.forRoot({ backend: 'redis', redis: { client, pollInterval: 10 } })],
+      }).compile();
+
+      service = module.get<DistributedLockService>(DistributedLockService);
+    });
+
+    afterEach(async () => {
+      await module.close();
+    });
+
+    it('should poll a held lock with the retry strategy', async () => {
+      await service.acquire('test-key');
+      const retryStrategy = jest.fn(() => 5);
+
+      const result = await service.acquire('test-key', { timeout: 50, retryStrategy });
+
+      expect(result.reason).toBe('timeout');
+      expect(retryStrategy).toHaveBeenCalledWith(1, expect.any(LockAlreadyHeldException));
+      expect(retryStrategy.mock.calls.length).toBeGreaterThan(2);
+    });
+
+    it('should push the expiry forward with extend', async () => {
+      const result = await service.acquire('test-key', { ttl: 30 });
+
+      expect(await result.lock.extend(200)).toBe(true);
+      await new Promise((resolve) => setTimeout(resolve, 60));
+      expect(await service.isLocked('test-key')).toBe(true);
+
+      await result.lock.release();
+      expect(await service.isLocked('test-key')).toBe(false);
+      expect(await result.lock.extend(200)).toBe(false);
+    });
+
+    it('should keep renewing the lease while autoRenew is on', async () => {
+      // 使用假的计时器推进时间，续期不受测试机器负载影响
+      jest.useFakeTimers();
+      try {
+        const options = { ttl: 100, autoRenew: true, renewInterval: 30 };
+        const running = service.withLock('test-key', async () => {
+          await new Promise((resolve) => setTimeout(resolve, 1000));
+          return service.isLocked('test-key');
+        }, options);
+        await jest.advanceTimersByTimeAsync(1000);
+        expect(await running).toBe(true);
+
+        const lost = jest.fn();
+        const result = await service.acquire('test-key', options);
+        result.lock.onLost(lost);
+        await jest.advanceTimersByTimeAsync(1000);
+
+        expect(lost).not.toHaveBeenCalled();
+        expect(await service.isLocked('test-key')).toBe(true);
+        await result.lock.release();
+        expect(await service.isLocked('test-key')).toBe(false);
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+
+    it('should signal lost when renewal fails', async () => {
+      const result = await service.acquire('test-key', { ttl: 60, autoRenew: true, renewInterval: 10 });
+      const lost = new Promise<Error>((resolve) => result.lock.onLost(resolve));
+
+      // 模拟锁被他人抢占
+      await client.set('lock:test-key', 'intruder');
+
+      expect((await lost).message).toContain('lost');
+      expect(await result.lock.extend(100)).toBe(false);
+      expect(await client.get('lock:test-key')).toBe('intruder');
+
+      await result.lock.release();
+    });
+
+    it('should signal lost when the ttl expires without renewal', async () => {
+      const result = await service.acquire('test-key', { ttl: 20 });
+      const lost = new Promise<Error>((resolve) => result.lock.onLost(resolve));
+
+      expect((await lost).message).toContain('expired');
+      expect(await service.isLocked('test-key')).toBe(false);
+    });
+  });
+
+  describe('without an explicit ttl', () => {
+    let module: TestingModule;
+    let service: DistributedLockService;
+
+    beforeEach(async () => {
+      module = await Test.createTestingModule({
+        imports: [DistributedLockModule.forRoot({ backend: 'redis', redis: { client, pollInterval: 10, defaultTtl: 60 } })],
+      }).compile();
+
+      service = module.get<DistributedLockService>(DistributedLockService);
+    });
+
+    afterEach(async () => {
+      await module.close();
+    });
+
+    it('should renew the lease past the backend default ttl', async () => {
+      jest.useFakeTimers();
+      try {
+        const running = service.withLock('test-key', async () => {
+          await new Promise((resolve) => setTimeout(resolve, 500));
+          return service.acquire('test-key', { wait: false });
+        });
+        await jest.advanceTimersByTimeAsync(500);
+
+        expect((await running).reason).toBe('held');
+        expect(await service.isLocked('test-key')).toBe(false);
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+
+    it('should signal lost at the backend default ttl when autoRenew is off', async () => {
+      const result = await service.acquire('test-key', { autoRenew: false });
+      const lost = new Promise<Error>((resolve) => result.lock.onLost(resolve));
+
+      expect((await lost).message).toContain('expired');
+      expect(await service.isLocked('test-key')).toBe(false);
+    });
+  });
+});
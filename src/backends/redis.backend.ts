@@ -0,0 +1,142 @@
+import { randomUUID } from 'crypto';
+
+import {
+  LockBackend,
+  LockBackendAcquireOptions,
+  LockLease,
+  RedisLockClient,
+  RedisLockOptions,
+} from '../interfaces';
+
+const DEFAULT_KEY_PREFIX = 'lock:';
+const DEFAULT_LOCK_TTL = 30000; // 30秒
+const DEFAULT_POLL_INTERVAL = 100;
+
+/** 仅当锁仍属于自己（token一致）时才删除 */
+const RELEASE_SCRIPT = `
+if redis.call("get", KEYS[1]) == ARGV[1] then
+  return redis.call("del", KEYS[1])
+else
+  return 0
+end`;
+
+/** 仅当锁仍属于自己（token一致）时才续期 */
+const EXTEND_SCRIPT = `
+if redis.call("get", KEYS[1]) == ARGV[1] then
+  return redis.call("pexpire", KEYS[1], ARGV[2])
+else
+  return 0
+end`;
+
+/**
+ * 基于Redis SET NX PX 的锁后端
+ * 每次获取生成唯一token，释放和续期通过Lua脚本校验token，避免误删他人的锁
+ */
+export class RedisLockBackend implements LockBackend {
+  readonly name = 'redis';
+
+  private readonly client: RedisLockClient;
+  private readonly keyPrefix: string;
+  private readonly defaultTtl: number;
+  private readonly pollInterval: number;
+
+  constructor(options: RedisLockOptions) {
+    this.client = options.client;
+    this.keyPrefix = options.keyPrefix ?? DEFAULT_KEY_PREFIX;
+    this.defaultTtl = options.defaultTtl ?? DEFAULT_LOCK_TTL;
+    this.pollInterval = options.pollInterval ?? DEFAULT_POLL_INTERVAL;
+  }
+
+  async acquire(key: string, options: LockBackendAcquireOptions): Promise<LockLease | null> {
+    const deadline = Date.now() + options.timeout;
+
+    // Redis没有阻塞式的SET NX，只能轮询直到超时
+    for (let attempt = 1; ; attempt++) {
+      const lease = await this.tryAcquire(key, options);
+      if (lease) {
+        return lease;
+      }
+
+      const remaining = deadline - Date.now();
+      if (remaining <= 0 || options.signal?.aborted) {
+        return null;
+      }
+
+      const delay = options.pollDelay ? options.pollDelay(attempt) : this.pollInterval;
+      if (delay === null) {
+        return null;
+      }
+      await this.sleep(Math.min(Math.max(0, delay), remaining), options.signal);
+    }
+  }
+
+  async tryAcquire(key: string, options: LockBackendAcquireOptions): Promise<LockLease | null> {
+    if (options.mode === 'shared') {
+      throw new Error('Shared locks are not supported by the redis backend');
+    }
+    if (options.scope === 'transaction') {
+      throw new Error('Transaction-scoped locks are not supported by the redis backend');
+    }
+
+    const lockId = this.keyPrefix + key;
+    const token = options.token ?? randomUUID();
+    const ttl = options.ttl ?? this.defaultTtl;
+
+    const result = await this.client.set(lockId, token, 'PX', ttl, 'NX');
+
+    return result === 'OK' ? { key, lockId, session: token, ttl } : null;
+  }
+
+  async release(key: string, lease?: LockLease): Promise<boolean> {
+    // 没有token无法确认锁归属，宁可不释放也不能删除别人的锁
+    if (!lease?.session) {
+      return false;
+    }
+
+    const result = await this.client.eval(RELEASE_SCRIPT, 1, this.keyPrefix + key, lease.session);
+    return Number(result) === 1;
+  }
+
+  async isHeld(key: string): Promise<boolean> {
+    return (await this.client.exists(this.keyPrefix + key)) > 0;
+  }
+
+  async extend(lease: LockLease, ttl: number): Promise<boolean> {
+    const result = await this.client.eval(EXTEND_SCRIPT, 1, lease.lockId, lease.session, ttl);
+    return Number(result) === 1;
+  }
+
+  async fence(lease: LockLease): Promise<number> {
+    if (!this.client.incr) {
+      throw new Error('Fencing tokens require a redis client with the INCR command');
+    }
+
+    return Number(await this.client.incr(`fence:${lease.lockId}`));
+  }
+
+  async getLastRun(key: string): Promise<number | null> {
+    if (!this.client.get) {
+      throw new Error('Job run timestamps require a redis client with the GET command');
+    }
+
+    const value = await this.client.get(`lastrun:${this.keyPrefix}${key}`);
+    return value === null ? null : Number(value);
+  }
+
+  async setLastRun(key: string, time: number): Promise<void> {
+    await this.client.set(`lastrun:${this.keyPrefix}${key}`, String(time));
+  }
+
+  /** 等待下一次轮询，取消信号触发时提前结束 */
+  private sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve) => {
+      const done = () => {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', done);
+        resolve();
+      };
+      const timer = setTimeout(done, ms);
+      signal?.addEventListener('abort', done);
+    });
+  }
+}
@@ -0,0 +1,23 @@
+import { AnyDataSource } from '../interfaces';
+
+/**
+ * 首次使用时执行建表语句，同一条语句只执行一次
+ * @param tables 保存各建表语句执行结果的缓存，每个后端实例一份
+ */
+export function ensureTable(
+  dataSource: AnyDataSource,
+  tables: Map<string, Promise<void>>,
+  ddl: string,
+): Promise<void> {
+  let ready = tables.get(ddl);
+  if (!ready) {
+    ready = dataSource.query(ddl).then(() => undefined);
+    tables.set(ddl, ready);
+
+    // 建表失败时允许下次重试
+    ready.catch(() => {
+      tables.delete(ddl);
+    });
+  }
+  return ready;
+}
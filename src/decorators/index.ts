@@ -1 +1,3 @@
-export * from './lock.decorator';
\ No newline at end of file
+export * from './lock.decorator';
+export * from './semaphore.decorator';
+export * from './singleton-job.decorator';
\ No newline at end of file
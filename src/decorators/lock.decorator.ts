@@ -1,30 +1,51 @@
 import { applyDecorators, SetMetadata, UseInterceptors } from '@nestjs/common';
 import { DistributedLockInterceptor } from '../interceptors/distributed-lock.interceptor';
-import { LockAcquireOptions } from '../interfaces';
+import { wrapLockedMethod } from '../distributed-lock.explorer';
+import { createMethodLockKeyContext, resolveLockOptions } from '../interceptors/lock-key.utils';
+import { LockAcquireOptions, LockKeyContext } from '../interfaces';
 
 export const LOCK_METADATA_KEY = 'distributed-lock:options';
 
 export interface LockDecoratorOptions extends LockAcquireOptions {
-  key: string;
+  /**
+   * 锁键，传入数组时同时获取多把锁
+   * 支持 {path} 模板，从 LockKeyContext 中取值，例如 'order:{params.id}'
+   */
+  key: string | string[];
 }
 
-export type LockOptions = LockDecoratorOptions | string | ((...args: any[]) => LockDecoratorOptions);
+/** 根据请求数据生成锁键或完整的锁选项 */
+export type LockKeyFactory = (context: LockKeyContext) => LockDecoratorOptions | string | string[];
+
+export type LockOptions = LockDecoratorOptions | string | string[] | LockKeyFactory;
 
 /**
  * 分布式锁装饰器
+ * 控制器、解析器方法通过拦截器加锁；普通provider的方法（服务、定时任务、队列处理器）在启动后由 DistributedLockExplorer 启用加锁
  * 使用方式：
  * @Lock('resource-key')
  * @Lock({ key: 'resource-key', timeout: 5000 })
- * @Lock((orderId) => ({ key: `order:${orderId}`, timeout: 5000 }))
+ * @Lock({ key: 'report', mode: 'shared' })
+ * @Lock(['account:1', 'account:2'])
+ * @Lock('order:{params.id}')
+ * @Lock(({ body }) => ({ key: `order:${body.orderId}`, timeout: 5000 }))
  */
 export function Lock(options: LockOptions): MethodDecorator {
-  const lockOptions = typeof options === 'string' 
+  const lockOptions = typeof options === 'string' || Array.isArray(options)
     ? { key: options }
     : typeof options === 'function'
     ? { key: 'dynamic-lock', isDynamic: true, dynamicFn: options }
     : options;
 
   return applyDecorators(
+    // 先替换方法，元数据和拦截器才会写到最终的方法上
+    (target: object, propertyKey: string | symbol, descriptor: PropertyDescriptor) =>
+      wrapLockedMethod(target, propertyKey, descriptor, (lockService, invoke, args, defaultKey) => {
+        const { key, options: resolved } = resolveLockOptions(lockOptions, createMethodLockKeyContext(args), defaultKey);
+        return Array.isArray(key)
+          ? lockService.withLocks(key, invoke, resolved)
+          : lockService.withLock(key, invoke, resolved);
+      }),
     SetMetadata(LOCK_METADATA_KEY, lockOptions),
     UseInterceptors(DistributedLockInterceptor)
   );
@@ -0,0 +1,25 @@
+import { applyDecorators, SetMetadata, UseInterceptors } from '@nestjs/common';
+import { DistributedSemaphoreInterceptor } from '../interceptors/distributed-semaphore.interceptor';
+import { PermitAcquireOptions } from '../distributed-semaphore.service';
+
+export const SEMAPHORE_METADATA_KEY = 'distributed-lock:semaphore';
+
+export interface SemaphoreDecoratorOptions extends PermitAcquireOptions {
+  /** 信号量键，支持 {path} 模板，例如 'tenant:{user.tenantId}' */
+  key: string;
+  /** 最多允许同时执行的数量 */
+  permits: number;
+}
+
+/**
+ * 分布式信号量装饰器，最多允许 permits 个调用同时执行
+ * 使用方式：
+ * @Semaphore({ key: 'partner-api', permits: 5 })
+ * @Semaphore({ key: 'partner-api', permits: 5, timeout: 10000 })
+ */
+export function Semaphore(options: SemaphoreDecoratorOptions): MethodDecorator {
+  return applyDecorators(
+    SetMetadata(SEMAPHORE_METADATA_KEY, options),
+    UseInterceptors(DistributedSemaphoreInterceptor)
+  );
+}
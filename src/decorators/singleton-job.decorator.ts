@@ -0,0 +1,19 @@
+import { wrapLockedMethod } from '../distributed-lock.explorer';
+import { SingletonJobOptions } from '../interfaces';
+
+/**
+ * 单例任务装饰器，与 @Cron、@Interval 等一起使用
+ * 同一时间只有一个实例执行，其他实例跳过本次调度；跳过时方法返回undefined
+ * 仅对provider的方法生效，由 DistributedLockExplorer 在启动后启用
+ * 使用方式：
+ * @SingletonJob()
+ * @SingletonJob({ key: 'billing:daily', minIntervalMs: 60 * 60 * 1000 })
+ */
+export function SingletonJob(options: SingletonJobOptions = {}): MethodDecorator {
+  return (target: object, propertyKey: string | symbol, descriptor: PropertyDescriptor) => {
+    wrapLockedMethod(target, propertyKey, descriptor, async (lockService, invoke, _args, defaultKey) => {
+      const { result } = await lockService.runSingletonJob(options.key ?? defaultKey, invoke, options);
+      return result;
+    });
+  };
+}
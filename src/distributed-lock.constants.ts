@@ -1,4 +1,14 @@
 export const DISTRIBUTED_LOCK_MODULE_OPTIONS = 'DISTRIBUTED_LOCK_MODULE_OPTIONS';
+export const DISTRIBUTED_LOCK_BACKEND = 'DISTRIBUTED_LOCK_BACKEND';
+export const NAMESPACED_KEY_PREFIX = '@'; // 带命名空间的锁键前缀
 export const DEFAULT_TIMEOUT = 30000; // 30秒
 export const DEFAULT_MAX_RETRIES = 3;
-export const DEFAULT_RETRY_DELAY = 1000; // 1秒
\ No newline at end of file
+export const DEFAULT_RETRY_DELAY = 1000; // 1秒
+export const DEFAULT_FENCING_TABLE = 'distributed_lock_fences';
+export const DEFAULT_JOB_RUNS_TABLE = 'distributed_lock_job_runs';
+export const DEFAULT_SHUTDOWN_RELEASE_TIMEOUT = 5000; // 5秒
+
+export const DEFAULT_SEMAPHORE_POLL_INTERVAL = 100; // 100毫秒
+
+export const DEFAULT_LEADER_KEY = 'leader';
+export const DEFAULT_CAMPAIGN_INTERVAL = 5000; // 5秒
\ No newline at end of file
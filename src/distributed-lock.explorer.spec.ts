@@ -0,0 +1,211 @@
+import { Controller, Injectable, Module, Scope, SetMetadata } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { DistributedLockModule } from './distributed-lock.module';
+import { DistributedLockService } from './distributed-lock.service';
+import { Lock, SingletonJob } from './decorators';
+import { MemoryLockBackend } from './backends';
+
+const CRON_METADATA = 'test:cron';
+
+@Injectable()
+class ReportService {
+  active = 0;
+  maxActive = 0;
+  heldKeys: string[][] = [];
+
+  constructor(private readonly lockService: DistributedLockService) { }
+
+  @Lock('report:{args.0}')
+  async generate(id: string) {
+    this.active++;
+    this.maxActive = Math.max(this.maxActive, this.active);
+    this.heldKeys.push(this.lockService.getHeldLocks().map((lock) => lock.key));
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    this.active--;
+    return `report ${id}`;
+  }
+
+  @Lock({ key: 'nightly', wait: false })
+  @SetMetadata(CRON_METADATA, '0 0 * * *')
+  async nightly() {
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+}
+
+@Injectable()
+class BillingJob {
+  runs = 0;
+
+  @SingletonJob({ key: 'billing' })
+  async charge() {
+    this.runs++;
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    return 'charged';
+  }
+
+  @SingletonJob({ minIntervalMs: 60000 })
+  async reconcile() {
+    this.runs++;
+  }
+}
+
+@Injectable({ scope: Scope.REQUEST })
+class RequestReportService {
+  static heldKeys: string[][] = [];
+
+  constructor(private readonly lockService: DistributedLockService) { }
+
+  @Lock('request-report')
+  async generate() {
+    RequestReportService.heldKeys.push(this.lockService.getHeldLocks().map((lock) => lock.key));
+  }
+}
+
+@Injectable()
+class InvoiceService {
+  heldKeys: string[][] = [];
+
+  constructor(private readonly lockService: DistributedLockService) { }
+
+  @Lock('invoice')
+  async issue() {
+    this.heldKeys.push(this.lockService.getHeldLocks().map((lock) => lock.key));
+  }
+}
+
+@Module({
+  imports: [DistributedLockModule.forFeature({ namespace: 'billing' })],
+  providers: [InvoiceService],
+})
+class InvoiceModule { }
+
+@Controller()
+class ReportController {
+  @Lock('report-controller')
+  handle() {
+    return 'handled';
+  }
+}
+
+describe('DistributedLockExplorer', () => {
+  let module: TestingModule;
+  let reports: ReportService;
+  let lockService: DistributedLockService;
+
+  beforeEach(async () => {
+    module = await Test.createTestingModule({
+      imports: [DistributedLockModule.forRoot({ backend: 'memory' }), InvoiceModule],
+      controllers: [ReportController],
+      providers: [ReportService, RequestReportService],
+    }).compile();
+    await module.init();
+
+    reports = module.get(ReportService);
+    lockService = module.get(DistributedLockService);
+  });
+
+  afterEach(async () => {
+    await module.close();
+  });
+
+  it('should hold the lock while a provider method runs', async () => {
+    const results = await Promise.all([reports.generate('1'), reports.generate('1')]);
+
+    expect(results).toEqual(['report 1', 'report 1']);
+    expect(reports.maxActive).toBe(1);
+    expect(reports.heldKeys[0]).toEqual(['report:1']);
+    expect(lockService.getHeldLocks()).toEqual([]);
+  });
+
+  it('should resolve key templates from method arguments', async () => {
+    await Promise.all([reports.generate('1'), reports.generate('2')]);
+
+    expect(reports.maxActive).toBe(2);
+  });
+
+  it('should throw when a non-blocking lock is held', async () => {
+    const first = reports.nightly();
+
+    await expect(reports.nightly()).rejects.toThrow('锁已被占用: nightly');
+    await first;
+  });
+
+  it('should keep metadata of decorators applied before @Lock', () => {
+    expect(Reflect.getMetadata(CRON_METADATA, ReportService.prototype.nightly)).toBe('0 0 * * *');
+    expect(ReportService.prototype.nightly.name).toBe('nightly');
+  });
+
+  it('should lock methods of request-scoped providers', async () => {
+    RequestReportService.heldKeys = [];
+    const instance = await module.resolve(RequestReportService);
+
+    await instance.generate();
+
+    expect(RequestReportService.heldKeys).toEqual([['request-report']]);
+  });
+
+  it('should use the namespaced service of a forFeature module', async () => {
+    const invoices = module.get(InvoiceService);
+
+    await invoices.issue();
+
+    expect(invoices.heldKeys).toEqual([['@billing:invoice']]);
+    expect(await lockService.isLocked('invoice')).toBe(false);
+  });
+
+  it('should leave controller methods to the interceptor', async () => {
+    const acquire = jest.spyOn(lockService, 'acquire');
+
+    expect(module.get(ReportController).handle()).toBe('handled');
+    expect(acquire).not.toHaveBeenCalled();
+  });
+});
+
+describe('SingletonJob', () => {
+  const backend = new MemoryLockBackend();
+  let modules: TestingModule[];
+  let jobs: BillingJob[];
+
+  beforeEach(async () => {
+    // 共用同一个后端的两个模块模拟两个实例
+    modules = await Promise.all([1, 2].map(() => Test.createTestingModule({
+      imports: [DistributedLockModule.forRoot({ backend })],
+      providers: [BillingJob],
+    }).compile()));
+    await Promise.all(modules.map((module) => module.init()));
+    jobs = modules.map((module) => module.get(BillingJob));
+  });
+
+  afterEach(async () => {
+    await Promise.all(modules.map((module) => module.close()));
+  });
+
+  it('should run on one instance and skip on the others', async () => {
+    const results = await Promise.all(jobs.map((job) => job.charge()));
+
+    expect(results.sort()).toEqual(['charged', undefined]);
+    expect(jobs[0].runs + jobs[1].runs).toBe(1);
+  });
+
+  it('should skip runs within minIntervalMs of the last run', async () => {
+    await jobs[0].reconcile();
+    await jobs[1].reconcile();
+
+    expect(jobs[0].runs + jobs[1].runs).toBe(1);
+    expect(await backend.getLastRun('BillingJob.reconcile')).toBeLessThanOrEqual(Date.now());
+  });
+
+  it('should not record failed runs against minIntervalMs', async () => {
+    const [first, second] = modules.map((module) => module.get(DistributedLockService));
+    const options = { minIntervalMs: 60000 };
+
+    await expect(first.runSingletonJob('flaky', async () => {
+      throw new Error('upstream unavailable');
+    }, options)).rejects.toThrow('upstream unavailable');
+    expect(await backend.getLastRun('flaky')).toBeNull();
+
+    const result = await second.runSingletonJob('flaky', async () => 'recovered', options);
+    expect(result).toEqual({ ran: true, result: 'recovered' });
+    expect(await backend.getLastRun('flaky')).toEqual(expect.any(Number));
+  });
+});
@@ -0,0 +1,136 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { DiscoveryService, MetadataScanner } from '@nestjs/core';
+import { InstanceWrapper } from '@nestjs/core/injector/instance-wrapper';
+import { Module } from '@nestjs/core/injector/module';
+
+import { DistributedLockService } from './distributed-lock.service';
+
+/** provider实例（请求作用域、瞬态provider为类的原型）上保存 DistributedLockService 的属性 */
+const LOCK_SERVICE = Symbol('distributed-lock:service');
+/** 标记被 @Lock 包装的方法 */
+const LOCKED_METHOD = Symbol('distributed-lock:locked-method');
+
+/** 持锁执行被包装方法的逻辑，invoke 调用原方法 */
+export type LockedMethodRunner = (
+  lockService: DistributedLockService,
+  invoke: () => Promise<any>,
+  args: any[],
+  defaultKey: string,
+) => Promise<any>;
+
+/**
+ * 将 @Lock、@SingletonJob 标注的方法替换为持锁执行的包装函数
+ * 包装函数从实例或其原型上取得 DistributedLockService：控制器、解析器等由拦截器加锁的实例上没有该属性，直接调用原方法
+ */
+export function wrapLockedMethod(
+  target: object,
+  propertyKey: string | symbol,
+  descriptor: PropertyDescriptor,
+  runner: LockedMethodRunner,
+): void {
+  const original = descriptor.value;
+  if (typeof original !== 'function') {
+    return;
+  }
+
+  const defaultKey = `${target.constructor.name}.${String(propertyKey)}`;
+  const wrapped = function (this: any, ...args: any[]) {
+    const lockService: DistributedLockService | undefined = this?.[LOCK_SERVICE];
+    if (!lockService) {
+      return original.apply(this, args);
+    }
+
+    return runner(lockService, async () => original.apply(this, args), args, defaultKey);
+  };
+
+  // 保留先于本装饰器应用的装饰器（如 @Cron）写在原方法上的元数据
+  for (const metadataKey of Reflect.getMetadataKeys(original)) {
+    Reflect.defineMetadata(metadataKey, Reflect.getMetadata(metadataKey, original), wrapped);
+  }
+  Object.defineProperty(wrapped, 'name', { value: original.name });
+  Object.defineProperty(wrapped, LOCKED_METHOD, { value: true });
+
+  descriptor.value = wrapped;
+}
+
+/** 由拦截器处理的provider：GraphQL解析器和WebSocket网关 */
+const INTERCEPTED_PROVIDER_METADATA = ['graphql:resolver_type', 'websockets:is_gateway'];
+
+/**
+ * 在启动时查找带有 @Lock、@SingletonJob 方法的provider，使其方法通过 DistributedLockService 加锁
+ * provider所在模块导入了 forFeature 时使用该模块命名空间的 DistributedLockService
+ */
+@Injectable()
+export class DistributedLockExplorer implements OnModuleInit {
+  private readonly logger = new Logger(DistributedLockExplorer.name);
+
+  constructor(
+    private readonly discoveryService: DiscoveryService,
+    private readonly metadataScanner: MetadataScanner,
+    private readonly lockService: DistributedLockService,
+  ) { }
+
+  onModuleInit(): void {
+    for (const wrapper of this.discoveryService.getProviders()) {
+      const { metatype } = wrapper;
+      if (metatype && INTERCEPTED_PROVIDER_METADATA.some((key) => Reflect.getMetadata(key, metatype))) {
+        continue;
+      }
+
+      const target = this.lockTarget(wrapper);
+      if (!target) {
+        continue;
+      }
+
+      const prototype = target === wrapper.instance ? Object.getPrototypeOf(target) : target;
+      const lockedMethods = this.metadataScanner
+        .getAllMethodNames(prototype)
+        .filter((name) => prototype[name]?.[LOCKED_METHOD]);
+
+      if (lockedMethods.length) {
+        // 同一进程中的多个应用可能共用一个类，原型上的属性允许被后初始化的应用覆盖
+        Object.defineProperty(target, LOCK_SERVICE, {
+          value: this.resolveLockService(wrapper.host),
+          configurable: true,
+        });
+        this.logger.debug(`locking methods of ${prototype.constructor.name}: ${lockedMethods.join(', ')}`);
+      }
+    }
+  }
+
+  /**
+   * 保存 DistributedLockService 的对象
+   * 静态provider保存在实例上；请求作用域、瞬态provider每次注入都会创建新实例，保存在类的原型上
+   */
+  private lockTarget(wrapper: InstanceWrapper): object | undefined {
+    const { instance, metatype } = wrapper;
+
+    if (wrapper.isDependencyTreeStatic() && !wrapper.isTransient) {
+      return instance && typeof instance === 'object' ? instance : undefined;
+    }
+
+    // 工厂provider在启动时无法得知会创建哪个类的实例
+    if (wrapper.inject || typeof metatype !== 'function') {
+      return undefined;
+    }
+    return metatype.prototype;
+  }
+
+  /**
+   * provider所在模块导入了 forFeature 时返回其 DistributedLockService，否则返回根模块的服务
+   */
+  private resolveLockService(host: Module | undefined): DistributedLockService {
+    for (const imported of host?.imports ?? []) {
+      // forFeature 返回的模块不是全局模块，并导出自己的 DistributedLockService
+      if (!imported || imported.isGlobal || !imported.exports.has(DistributedLockService)) {
+        continue;
+      }
+
+      const lockService = imported.getProviderByKey<DistributedLockService>(DistributedLockService)?.instance;
+      if (lockService instanceof DistributedLockService) {
+        return lockService;
+      }
+    }
+    return this.lockService;
+  }
+}
@@ -0,0 +1,250 @@
+import { Logger } from '@nestjs/common';
+
+import { LockLease } from './interfaces';
+import type { HeldLockInfo, LockHandle, LockStatus } from './distributed-lock.service';
+
+export interface ManagedLockHandleOptions {
+  key: string;
+  token: string;
+  fencingToken?: number;
+  /** 后端返回的租约，多键锁在后端不支持单连接获取时包含多个 */
+  leases: LockLease[];
+  /** 锁持有时间（毫秒），到期后强制释放 */
+  ttl?: number;
+  /** 是否在持有期间自动续期 */
+  autoRenew?: boolean;
+  /** 自动续期间隔（毫秒），默认为 ttl 的三分之一 */
+  renewInterval?: number;
+  releaseLease: (lease: LockLease) => Promise<void>;
+  extendLease: (lease: LockLease, ttl: number) => Promise<boolean>;
+  /** 检查持锁连接是否可用，失败时抛出异常 */
+  ping?: (lease: LockLease) => Promise<void>;
+  /** 监听持锁连接异常，返回取消监听的函数 */
+  watch?: (lease: LockLease, onLost: (error: Error) => void) => () => void;
+  /** 锁被释放或丢失后调用，用于从服务的持有列表中移除 */
+  onSettled?: (handle: ManagedLockHandle) => void;
+  logger: Logger;
+}
+
+/**
+ * DistributedLockService 返回的锁句柄
+ * 负责TTL到期释放、续期看门狗、连接健康检查以及锁丢失通知
+ */
+export class ManagedLockHandle implements LockHandle {
+  readonly key: string;
+  readonly token: string;
+  readonly fencingToken?: number;
+  readonly acquiredAt = new Date();
+
+  private readonly leases: LockLease[];
+  private readonly logger: Logger;
+  private readonly lostListeners: ((error: Error) => void)[] = [];
+  private readonly abortController = new AbortController();
+  private state: LockStatus = 'held';
+  private lostError?: Error;
+  private leaseRelease?: Promise<void>;
+  private ttl?: number;
+  private expiryTimer?: NodeJS.Timeout;
+  private renewTimer?: NodeJS.Timeout;
+  private unwatchers: (() => void)[] = [];
+
+  constructor(private readonly options: ManagedLockHandleOptions) {
+    this.key = options.key;
+    this.token = options.token;
+    this.fencingToken = options.fencingToken;
+    this.leases = options.leases;
+    this.logger = options.logger;
+    this.ttl = options.ttl;
+
+    if (this.ttl) {
+      this.scheduleExpiry(this.ttl);
+
+      if (options.autoRenew) {
+        this.startWatchdog(options.renewInterval ?? Math.max(1, Math.floor(this.ttl / 3)));
+      }
+    }
+
+    if (options.watch) {
+      this.unwatchers = this.leases.map((lease) => options.watch(lease, (error) => {
+        const connectionError = error ?? new Error('connection error');
+        this.markLost(new Error(`Lock ${this.key} lost: ${connectionError.message}`), connectionError);
+      }));
+    }
+  }
+
+  get status(): LockStatus {
+    return this.state;
+  }
+
+  /** 含命名空间前缀的完整锁键，多键锁包含所有键 */
+  get resourceKeys(): string[] {
+    return this.members().map((member) => member.key);
+  }
+
+  /** 供 DistributedLockService.getHeldLocks 使用的快照，每个键一条 */
+  describe(): HeldLockInfo[] {
+    return this.members().map((member) => ({
+      key: member.key,
+      lockId: member.lockId,
+      mode: member.mode ?? 'exclusive',
+      token: this.token,
+      fencingToken: this.fencingToken,
+      acquiredAt: this.acquiredAt,
+      ttl: this.ttl,
+      session: member.session,
+    }));
+  }
+
+  /** 锁丢失时触发abort的信号，释放后不会触发 */
+  get signal(): AbortSignal {
+    return this.abortController.signal;
+  }
+
+  release = async (): Promise<void> => {
+    if (this.state === 'released') {
+      return;
+    }
+
+    this.state = 'released';
+    this.stopTimers();
+    this.options.onSettled?.(this);
+    await this.releaseLeaseOnce();
+  };
+
+  extend = async (ms: number): Promise<boolean> => {
+    if (this.state !== 'held') {
+      return false;
+    }
+
+    let extended = false;
+    try {
+      const results = await Promise.all(this.leases.map((lease) => this.options.extendLease(lease, ms)));
+      extended = results.every(Boolean);
+    } catch (error) {
+      this.logger.error(`Failed to extend lock ${this.key}`, error);
+    }
+
+    if (!extended) {
+      this.markLost(new Error(`Lock ${this.key} lost: lease extension failed`));
+      return false;
+    }
+
+    // 续期后重新计算TTL到期时间
+    if (this.ttl && this.state === 'held') {
+      this.ttl = ms;
+      this.scheduleExpiry(ms);
+    }
+    return true;
+  };
+
+  /**
+   * 在持锁连接上执行一次健康检查
+   * 检查失败或超过 timeout 未返回时将锁标记为丢失
+   * @returns 锁是否仍然健康
+   */
+  async checkHealth(timeout?: number): Promise<boolean> {
+    if (this.state !== 'held' || !this.options.ping) {
+      return this.state === 'held';
+    }
+
+    let timer: NodeJS.Timeout;
+    try {
+      const ping = Promise.all(this.leases.map((lease) => this.options.ping(lease)));
+      await (timeout
+        ? Promise.race([
+          ping,
+          new Promise<never>((_, reject) => {
+            timer = setTimeout(() => reject(new Error(`no response within ${timeout}ms`)), timeout);
+          }),
+        ])
+        : ping);
+
+      this.logger.debug(`heartbeat ok: ${this.key}`);
+      return true;
+    } catch (error) {
+      this.markLost(new Error(`Lock ${this.key} lost: heartbeat failed (${error?.message ?? error})`), error);
+      return false;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * 收回锁（服务关闭时使用）：像锁丢失一样中止 signal、通知监听者，并等待持锁资源释放完毕
+   */
+  async revoke(error: Error): Promise<void> {
+    this.markLost(error);
+    await this.releaseLeaseOnce().catch(() => { });
+  }
+
+  onLost = (listener: (error: Error) => void): void => {
+    if (this.state === 'lost') {
+      listener(this.lostError);
+      return;
+    }
+    this.lostListeners.push(listener);
+  };
+
+  /**
+   * 标记锁已丢失：停止计时器、释放持锁资源并通知监听者
+   * @param connectionError 持锁连接已不可用时的错误，后端据此销毁连接而不是在其上解锁
+   */
+  private markLost(error: Error, connectionError?: Error): void {
+    if (this.state !== 'held') {
+      return;
+    }
+
+    if (connectionError) {
+      this.leases.forEach((lease) => {
+        lease.connectionError = connectionError;
+      });
+    }
+
+    this.state = 'lost';
+    this.lostError = error;
+    this.stopTimers();
+    this.logger.warn(error.message);
+    this.options.onSettled?.(this);
+
+    this.releaseLeaseOnce().catch(() => { });
+    this.abortController.abort(error);
+
+    for (const listener of this.lostListeners.splice(0)) {
+      try {
+        listener(error);
+      } catch (err) {
+        this.logger.error(`Lock lost listener failed for ${this.key}`, err);
+      }
+    }
+  }
+
+  private scheduleExpiry(ttl: number): void {
+    clearTimeout(this.expiryTimer);
+    this.expiryTimer = setTimeout(() => {
+      this.logger.debug(`Lock ${this.key} expired after ${ttl}ms`);
+      this.markLost(new Error(`Lock ${this.key} expired after ${ttl}ms`));
+    }, ttl);
+  }
+
+  private startWatchdog(interval: number): void {
+    this.renewTimer = setInterval(() => {
+      this.extend(this.ttl).catch(() => { });
+    }, interval);
+  }
+
+  private stopTimers(): void {
+    clearTimeout(this.expiryTimer);
+    clearInterval(this.renewTimer);
+    this.unwatchers.splice(0).forEach((unwatch) => unwatch());
+  }
+
+  private releaseLeaseOnce(): Promise<void> {
+    this.leaseRelease ??= Promise.all(this.leases.map((lease) => this.options.releaseLease(lease)))
+      .then(() => undefined);
+    return this.leaseRelease;
+  }
+
+  private members(): LockLease[] {
+    return this.leases.flatMap((lease) => lease.members ?? [lease]);
+  }
+}
@@ -2,6 +2,7 @@ import { Test, TestingModule } from '@nestjs/testing';
 import { DistributedLockModule } from './distributed-lock.module';
 import { DistributedLockService } from './distributed-lock.service';
 import { DataSource } from 'typeorm';
+import { Injectable, Module } from '@nestjs/common';
 
 describe('DistributedLockModule', () => {
   describe('forRoot', () => {
@@ -25,4 +26,82 @@ describe('DistributedLockModule', () => {
       await module.close();
     });
   });
+
+  describe('forFeature', () => {
+    @Injectable()
+    class BillingJobs {
+      constructor(readonly lockService: DistributedLockService) {}
+    }
+
+    @Injectable()
+    class AppJobs {
+      constructor(readonly lockService: DistributedLockService) {}
+    }
+
+    @Module({
+      imports: [DistributedLockModule.forFeature({ namespace: 'billing' })],
+      providers: [BillingJobs],
+    })
+    class BillingModule {}
+
+    it('should scope the feature service to its namespace', async () => {
+      const module: TestingModule = await Test.createTestingModule({
+        imports: [DistributedLockModule.forRoot({ backend: 'memory' }), BillingModule],
+        providers: [AppJobs],
+      }).compile();
+
+      const rootService = module.get(AppJobs).lockService;
+      const billingService = module.get(BillingJobs).lockService;
+      expect(billingService).not.toBe(rootService);
+
+      const billingLock = await billingService.acquire('nightly', { wait: false });
+      expect(billingLock.acquired).toBe(true);
+
+      // 同名锁在不同命名空间中互不阻塞
+      const rootLock = await rootService.acquire('nightly', { wait: false });
+      expect(rootLock.acquired).toBe(true);
+
+      expect(await rootService.isLocked('nightly', { namespace: 'billing' })).toBe(true);
+      const overridden = await rootService.acquire('nightly', { wait: false, namespace: 'billing' });
+      expect(overridden.reason).toBe('held');
+
+      await billingLock.lock.release();
+      await rootLock.lock.release();
+      await module.close();
+    });
+
+    it('should keep namespaced keys apart from keys containing the separator', async () => {
+      const module: TestingModule = await Test.createTestingModule({
+        imports: [DistributedLockModule.forRoot({ backend: 'memory' }), BillingModule],
+        providers: [AppJobs],
+      }).compile();
+
+      const rootService = module.get(AppJobs).lockService;
+      const billingService = module.get(BillingJobs).lockService;
+
+      const billingLock = await billingService.acquire('1', { wait: false });
+      const rootLock = await rootService.acquire('billing:1', { wait: false });
+      const prefixedLock = await rootService.acquire('@billing:1', { wait: false });
+      expect([billingLock.acquired, rootLock.acquired, prefixedLock.acquired]).toEqual([true, true, true]);
+
+      await Promise.all([billingLock, rootLock, prefixedLock].map((result) => result.lock.release()));
+      await module.close();
+    });
+
+    it('should reject namespaces starting with the namespaced key prefix', async () => {
+      await expect(
+        Test.createTestingModule({
+          imports: [DistributedLockModule.forRoot({ backend: 'memory', namespace: '@billing' })],
+        }).compile(),
+      ).rejects.toThrow("must not start with '@'");
+    });
+
+    it('should reject namespaces containing the separator', async () => {
+      await expect(
+        Test.createTestingModule({
+          imports: [DistributedLockModule.forRoot({ backend: 'memory', namespace: 'a:b' })],
+        }).compile(),
+      ).rejects.toThrow('must not contain');
+    });
+  });
 });
\ No newline at end of file
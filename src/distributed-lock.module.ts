@@ -1,15 +1,24 @@
 import { DynamicModule, Module, Provider } from '@nestjs/common';
-import { Reflector } from '@nestjs/core';
+import { DiscoveryModule, Reflector } from '@nestjs/core';
 import { DataSource } from 'typeorm';
 import { DistributedLockService } from './distributed-lock.service';
-import { DistributedLockInterceptor } from './interceptors';
+import { DistributedSemaphoreService } from './distributed-semaphore.service';
+import { DistributedLockExplorer } from './distributed-lock.explorer';
+import { LeaderElectionService } from './leader-election.service';
+import { DistributedLockInterceptor, DistributedSemaphoreInterceptor } from './interceptors';
+import { createLockBackend } from './backends';
 import {
   DistributedLockOptions,
   DistributedLockAsyncOptions,
   DistributedLockOptionsFactory,
+  DistributedLockFeatureOptions,
   AnyDataSource,
+  LockBackend,
 } from './interfaces';
-import { DISTRIBUTED_LOCK_MODULE_OPTIONS } from './distributed-lock.constants';
+import {
+  DISTRIBUTED_LOCK_MODULE_OPTIONS,
+  DISTRIBUTED_LOCK_BACKEND,
+} from './distributed-lock.constants';
 
 /**
  * 简化的数据源获取函数
@@ -33,14 +42,28 @@ export class DistributedLockModule {
         provide: DataSource,
         useValue: options.dataSource,
       }] : []),
+      this.createBackendProvider(),
       DistributedLockService,
+      DistributedLockExplorer,
       DistributedLockInterceptor,
+      DistributedSemaphoreService,
+      DistributedSemaphoreInterceptor,
+      LeaderElectionService,
     ];
 
     return {
       module: DistributedLockModule,
+      imports: [DiscoveryModule],
       providers,
-      exports: [DistributedLockService, DistributedLockInterceptor],
+      exports: [
+        DISTRIBUTED_LOCK_MODULE_OPTIONS,
+        DISTRIBUTED_LOCK_BACKEND,
+        DistributedLockService,
+        DistributedLockInterceptor,
+        DistributedSemaphoreService,
+        DistributedSemaphoreInterceptor,
+        LeaderElectionService,
+      ],
       global: true,
     };
   }
@@ -53,19 +76,76 @@ export class DistributedLockModule {
 
     const providers: Provider[] = [
       asyncOptionsProvider,
+      this.createBackendProvider(),
       DistributedLockService,
+      DistributedLockExplorer,
       DistributedLockInterceptor,
+      DistributedSemaphoreService,
+      DistributedSemaphoreInterceptor,
+      LeaderElectionService,
     ];
 
     return {
       module: DistributedLockModule,
-      imports: options.imports || [],
+      imports: [DiscoveryModule, ...(options.imports || [])],
       providers,
-      exports: [DistributedLockService, DistributedLockInterceptor],
+      exports: [
+        DISTRIBUTED_LOCK_MODULE_OPTIONS,
+        DISTRIBUTED_LOCK_BACKEND,
+        DistributedLockService,
+        DistributedLockInterceptor,
+        DistributedSemaphoreService,
+        DistributedSemaphoreInterceptor,
+        LeaderElectionService,
+      ],
       global: true,
     };
   }
 
+  /**
+   * 功能模块配置，为该模块提供使用独立命名空间的 DistributedLockService
+   * 需要先在根模块中调用 forRoot 或 forRootAsync，锁后端在各功能模块间共享
+   */
+  static forFeature(options: DistributedLockFeatureOptions): DynamicModule {
+    const providers: Provider[] = [
+      {
+        provide: DistributedLockService,
+        useFactory: (rootOptions: DistributedLockOptions, backend: LockBackend) =>
+          new DistributedLockService({ ...rootOptions, namespace: options.namespace }, backend),
+        inject: [DISTRIBUTED_LOCK_MODULE_OPTIONS, DISTRIBUTED_LOCK_BACKEND],
+      },
+      DistributedLockInterceptor,
+      DistributedSemaphoreService,
+      DistributedSemaphoreInterceptor,
+    ];
+
+    return {
+      module: DistributedLockModule,
+      providers,
+      exports: [
+        DistributedLockService,
+        DistributedLockInterceptor,
+        DistributedSemaphoreService,
+        DistributedSemaphoreInterceptor,
+      ],
+    };
+  }
+
+  /**
+   * 创建锁后端提供者，DataSource 为可选依赖（非数据库后端不需要）
+   */
+  private static createBackendProvider(): Provider {
+    return {
+      provide: DISTRIBUTED_LOCK_BACKEND,
+      useFactory: (options: DistributedLockOptions, dataSource?: AnyDataSource) =>
+        createLockBackend(options, dataSource),
+      inject: [
+        DISTRIBUTED_LOCK_MODULE_OPTIONS,
+        { token: DataSource, optional: true },
+      ],
+    };
+  }
+
   /**
    * 创建异步选项提供者
    */
@@ -0,0 +1,96 @@
+interface QueuedWaiter {
+  resolve: (granted: boolean) => void;
+  timer?: NodeJS.Timeout;
+}
+
+/**
+ * 公平模式下进程内的等待队列
+ * 同一个键同一时间只有队首的调用方向后端请求锁，其余调用方按到达顺序排队
+ */
+export class LockWaitQueue {
+  private readonly queues = new Map<string, QueuedWaiter[]>();
+
+  /**
+   * 进入队列并等待轮到自己
+   * @returns 是否在 timeout 内成为队首；成为队首后必须调用 leave
+   */
+  async enter(key: string, timeout: number): Promise<boolean> {
+    const queue = this.queues.get(key) ?? [];
+    this.queues.set(key, queue);
+
+    if (!queue.length) {
+      queue.push({ resolve: () => { } });
+      return true;
+    }
+
+    return new Promise<boolean>((resolve) => {
+      const waiter: QueuedWaiter = { resolve };
+      waiter.timer = setTimeout(() => {
+        this.remove(key, waiter);
+        resolve(false);
+      }, Math.max(0, timeout));
+
+      queue.push(waiter);
+    });
+  }
+
+  /**
+   * 按键排好序依次进入多个队列，所有调用方顺序一致，不会互相等待
+   * 未能全部进入时退出已进入的队列
+   */
+  async enterAll(keys: string[], timeout: number): Promise<boolean> {
+    const deadline = Date.now() + timeout;
+    const entered: string[] = [];
+
+    for (const key of keys) {
+      if (!await this.enter(key, deadline - Date.now())) {
+        entered.forEach((held) => this.leave(held));
+        return false;
+      }
+      entered.push(key);
+    }
+    return true;
+  }
+
+  /** 队首离开队列，唤醒下一个等待者 */
+  leave(key: string): void {
+    const queue = this.queues.get(key);
+    queue?.shift();
+
+    const next = queue?.[0];
+    if (next) {
+      clearTimeout(next.timer);
+      next.resolve(true);
+    } else {
+      this.queues.delete(key);
+    }
+  }
+
+  /**
+   * 让所有排队中的调用方立即放弃等待（服务关闭时使用）
+   * 队首正在向后端请求锁，由后端的取消信号中断
+   */
+  cancelAll(): void {
+    for (const queue of this.queues.values()) {
+      for (const waiter of queue.splice(1)) {
+        clearTimeout(waiter.timer);
+        waiter.resolve(false);
+      }
+    }
+  }
+
+  /** 排队中的调用方数量（包括正在向后端请求锁的队首） */
+  size(key: string): number {
+    return this.queues.get(key)?.length ?? 0;
+  }
+
+  private remove(key: string, waiter: QueuedWaiter): void {
+    const queue = this.queues.get(key);
+    const index = queue?.indexOf(waiter) ?? -1;
+
+    // 超时的等待者不可能是队首，队首在进入时就已获得资格
+    if (index > 0) {
+      queue.splice(index, 1);
+    }
+  }
+}
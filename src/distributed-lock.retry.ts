@@ -0,0 +1,79 @@
+import { RetryDelayFunction, RetryStrategy } from './interfaces';
+
+/** 连接类错误的Node.js错误码 */
+const RETRYABLE_ERROR_CODES = new Set([
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ETIMEDOUT',
+  'EPIPE',
+  'EAI_AGAIN',
+  // MySQL
+  'PROTOCOL_CONNECTION_LOST',
+  'ER_LOCK_WAIT_TIMEOUT',
+  'ER_LOCK_DEADLOCK',
+  'ER_CON_COUNT_ERROR',
+  // PostgreSQL
+  '40001', // serialization_failure
+  '40P01', // deadlock_detected
+  '53300', // too_many_connections
+  '55P03', // lock_not_available
+  '57P01', // admin_shutdown
+  '57P03', // cannot_connect_now
+]);
+
+const RETRYABLE_MESSAGES = /connection (terminated|reset|timeout|closed)|timeout exceeded when trying to connect|lock not available/i;
+
+/**
+ * 判断获取锁时的错误是否值得重试
+ * 锁被占用、连接断开等暂时性错误可以重试；SQL错误、权限不足、后端不支持的选项等重试也不会成功
+ */
+export function isRetryableLockError(error: any): boolean {
+  const code = error?.code ?? error?.driverError?.code;
+
+  if (code !== undefined) {
+    // PostgreSQL 08 类错误均为连接异常
+    return RETRYABLE_ERROR_CODES.has(String(code)) || /^08/.test(String(code));
+  }
+
+  return RETRYABLE_MESSAGES.test(error?.message ?? '');
+}
+
+/**
+ * 根据重试策略创建本次获取使用的间隔函数
+ * 去相关抖动依赖上一次的间隔，因此每次获取都要重新创建
+ */
+export function createRetryDelay(strategy: RetryStrategy | undefined, retryDelay: number): RetryDelayFunction {
+  if (typeof strategy === 'function') {
+    return strategy;
+  }
+
+  if (!strategy || strategy.type === 'fixed') {
+    const delay = strategy?.delay ?? retryDelay;
+    return () => delay;
+  }
+
+  const base = strategy.delay ?? retryDelay;
+  const maxDelay = strategy.maxDelay ?? Infinity;
+
+  if (strategy.type === 'linear') {
+    const increment = strategy.increment ?? base;
+    return (attempt) => Math.min(maxDelay, base + increment * (attempt - 1));
+  }
+
+  const factor = strategy.factor ?? 2;
+  let previous = base;
+
+  return (attempt) => {
+    const backoff = Math.min(maxDelay, base * factor ** (attempt - 1));
+
+    switch (strategy.jitter) {
+      case 'full':
+        return Math.random() * backoff;
+      case 'decorrelated':
+        previous = Math.min(maxDelay, base + Math.random() * (previous * 3 - base));
+        return previous;
+      default:
+        return backoff;
+    }
+  };
+}
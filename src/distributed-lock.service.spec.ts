@@ -1,7 +1,28 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { DataSource } from 'typeorm';
-import { DistributedLockService } from './distributed-lock.service';
+import { DistributedLockService, LockContext } from './distributed-lock.service';
 import { DistributedLockModule } from './distributed-lock.module';
+import { LockBackend } from './interfaces';
+import { MemoryLockBackend } from './backends';
+import { createRetryDelay, isRetryableLockError } from './distributed-lock.retry';
+import {
+  LockAcquireFailedException,
+  LockAcquireTimeoutException,
+  LockAlreadyHeldException,
+  LockReentryException,
+} from './exceptions';
+
+/** 假的锁后端：acquire 总能获取，tryAcquire 总是返回锁已被占用 */
+const createFakeBackend = (overrides: Partial<LockBackend> = {}): LockBackend => ({
+  name: 'fake',
+  acquire: jest.fn(async (key: string) => ({ key, lockId: key })),
+  tryAcquire: jest.fn().mockResolvedValue(null),
+  release: jest.fn().mockResolvedValue(true),
+  isHeld: jest.fn().mockResolvedValue(true),
+  extend: jest.fn().mockResolvedValue(true),
+  ping: jest.fn().mockResolvedValue(undefined),
+  ...overrides,
+});
 
 describe('DistributedLockService', () => {
   let service: DistributedLockService;
@@ -60,34 +81,78 @@ describe('DistributedLockService', () => {
   });
 
   describe('release', () => {
-    it('should successfully release lock', async () => {
-      (dataSourceMock.query as jest.Mock).mockResolvedValue([{ unlocked: true }]);
+    it('should unlock on the session that holds the lock', async () => {
+      const queryRunnerMock = {
+        connect: jest.fn().mockResolvedValue(undefined),
+        query: jest.fn().mockResolvedValue([{ unlocked: true }]),
+        release: jest.fn().mockResolvedValue(undefined),
+      };
+      (dataSourceMock.createQueryRunner as jest.Mock).mockReturnValue(queryRunnerMock);
 
+      await service.acquire('test-key');
       await expect(service.release('test-key')).resolves.toBeUndefined();
 
-      // 简单验证查询被调用
-      expect(dataSourceMock.query).toHaveBeenCalled();
+      expect(queryRunnerMock.query).toHaveBeenLastCalledWith(
+        'SELECT pg_advisory_unlock($1) AS unlocked',
+        expect.any(Array),
+      );
+      expect(queryRunnerMock.release).toHaveBeenCalled();
+      expect(dataSourceMock.query).not.toHaveBeenCalled();
+      expect(service.getHeldLocks()).toEqual([]);
     });
 
     it('should handle when lock is not held', async () => {
-      (dataSourceMock.query as jest.Mock).mockResolvedValue([{ unlocked: false }]);
-
-      // 不抛出异常，只是记录日志
+      // 不抛出异常，只是记录日志，也不会在其他连接上尝试解锁
       await expect(service.release('test-key')).resolves.toBeUndefined();
 
-      // 验证查询被调用
-      expect(dataSourceMock.query).toHaveBeenCalled();
+      expect(dataSourceMock.query).not.toHaveBeenCalled();
     });
 
     it('should handle release errors gracefully', async () => {
-      const error = new Error('Release error');
-      (dataSourceMock.query as jest.Mock).mockRejectedValue(error);
+      const queryRunnerMock = {
+        connect: jest.fn().mockResolvedValue(undefined),
+        query: jest.fn().mockResolvedValue(undefined),
+        release: jest.fn().mockResolvedValue(undefined),
+      };
+      (dataSourceMock.createQueryRunner as jest.Mock).mockReturnValue(queryRunnerMock);
+
+      await service.acquire('test-key');
+      queryRunnerMock.query.mockRejectedValue(new Error('Release error'));
 
       // release方法现在优雅处理错误，不抛出异常
       await expect(service.release('test-key')).resolves.toBeUndefined();
     });
   });
 
+  describe('getHeldLocks', () => {
+    it('should list the locks held by this process', async () => {
+      const queryRunnerMock = {
+        connect: jest.fn().mockResolvedValue(undefined),
+        query: jest.fn().mockResolvedValue(undefined),
+        release: jest.fn().mockResolvedValue(undefined),
+      };
+      (dataSourceMock.createQueryRunner as jest.Mock).mockReturnValue(queryRunnerMock);
+
+      const before = Date.now();
+      const result = await service.acquire('test-key', { ttl: 5000 });
+
+      expect(service.getHeldLocks()).toEqual([{
+        key: 'test-key',
+        lockId: expect.any(String),
+        mode: 'exclusive',
+        token: result.lock.token,
+        fencingToken: undefined,
+        acquiredAt: expect.any(Date),
+        ttl: 5000,
+        session: queryRunnerMock,
+      }]);
+      expect(service.getHeldLocks()[0].acquiredAt.getTime()).toBeGreaterThanOrEqual(before);
+
+      await result.lock.release();
+      expect(service.getHeldLocks()).toEqual([]);
+    });
+  });
+
   describe('isLocked', () => {
     it('should return true when lock is held', async () => {
       (dataSourceMock.query as jest.Mock).mockResolvedValue([{ objid: 12345 }]);
@@ -140,55 +205,202 @@ describe('DistributedLockService', () => {
     });
   });
 
-  describe('generateLockKey', () => {
-    it('should generate consistent hash for same key', () => {
-      const key1 = service['generateLockKey']('test-key');
-      const key2 = service['generateLockKey']('test-key');
+  describe('transaction scope', () => {
+    it('should refuse to run withLock outside a transaction', async () => {
+      const mockFn = jest.fn();
+
+      await expect(service.withLock('test-key', mockFn, { scope: 'transaction' }))
+        .rejects
+        .toThrow('requires an active transaction');
 
-      expect(key1).toBe(key2);
-      expect(typeof key1).toBe('number');
-      expect(Math.abs(key1)).toBe(key1); // 确保是正数
-      expect(key1).toBeGreaterThanOrEqual(0);
-      expect(key1).toBeLessThan(2147483647); // PostgreSQL限制
+      expect(mockFn).not.toHaveBeenCalled();
     });
 
-    it('should generate different hashes for different keys', () => {
-      const key1 = service['generateLockKey']('key1');
-      const key2 = service['generateLockKey']('key2');
+    it('should report a missing transaction as a failed acquisition', async () => {
+      const result = await service.acquire('test-key', { scope: 'transaction' });
+
+      expect(result.acquired).toBe(false);
+      expect(result.reason).toBe('unknown');
+      expect(result.error).toBeInstanceOf(LockAcquireFailedException);
+      expect(result.error.message).toContain('requires an active transaction');
 
-      expect(key1).not.toBe(key2);
+      const lockResult = await service.withLockResult('test-key', jest.fn(), { scope: 'transaction' });
+      expect(lockResult.success).toBe(false);
+      expect(lockResult.error).toBeInstanceOf(LockAcquireFailedException);
     });
 
-    it('should handle edge cases properly', () => {
-      // 测试空字符串
-      const emptyKey = service['generateLockKey']('');
-      expect(typeof emptyKey).toBe('number');
-      expect(emptyKey).toBeGreaterThanOrEqual(0);
+    it('should lock on the query runner of the given EntityManager', async () => {
+      const transactionRunner = {
+        isTransactionActive: true,
+        query: jest.fn().mockResolvedValue([{ locked: true }]),
+      };
+      const entityManager = { queryRunner: transactionRunner };
+
+      const result = await service.withLock('test-key', async () => 'done', {
+        scope: 'transaction',
+        transaction: entityManager,
+      });
+
+      expect(result).toBe('done');
+      expect(transactionRunner.query).toHaveBeenCalledWith(
+        'SELECT pg_try_advisory_xact_lock($1) AS locked',
+        expect.any(Array),
+      );
+      expect(dataSourceMock.createQueryRunner).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('custom backend', () => {
+    it('should delegate to an injected LockBackend', async () => {
+      const backend = createFakeBackend();
+
+      const moduleWithBackend = await Test.createTestingModule({
+        imports: [DistributedLockModule.forRoot({ backend })],
+      }).compile();
+
+      const serviceWithBackend = moduleWithBackend.get<DistributedLockService>(DistributedLockService);
+
+      // 固定时钟，传给后端的剩余等待时间才不会因跨过毫秒边界而变成29999
+      const now = jest.spyOn(Date, 'now').mockReturnValue(Date.now());
+      const result = await serviceWithBackend.acquire('test-key');
+      now.mockRestore();
+      expect(result.acquired).toBe(true);
+      expect(backend.acquire).toHaveBeenCalledWith('test-key', expect.objectContaining({ timeout: 30000 }));
+
+      await result.lock.release();
+      expect(backend.release).toHaveBeenCalledWith('test-key', { key: 'test-key', lockId: 'test-key' });
 
-      // 测试特殊字符
-      const specialKey = service['generateLockKey']('测试🔒特殊字符');
-      expect(typeof specialKey).toBe('number');
-      expect(specialKey).toBeGreaterThanOrEqual(0);
+      const held = await serviceWithBackend.acquire('test-key', { wait: false });
+      expect(held.reason).toBe('held');
+      expect(await serviceWithBackend.isLocked('test-key')).toBe(true);
 
-      // 测试长字符串
-      const longKey = service['generateLockKey']('a'.repeat(1000));
-      expect(typeof longKey).toBe('number');
-      expect(longKey).toBeGreaterThanOrEqual(0);
+      await moduleWithBackend.close();
     });
+  });
 
-    it('should have good hash distribution', () => {
-      // 测试哈希分布：相似字符串应该产生不同的结果
-      const keys = ['key1', 'key2', 'key3', 'key4', 'key5'];
-      const hashes = keys.map(key => service['generateLockKey'](key));
+  describe('lock loss', () => {
+    it('should pass a lock context to the withLock callback', async () => {
+      const result = await service.withLock('test-key', async (context) => {
+        expect(context.key).toBe('test-key');
+        expect(context.isHeld()).toBe(true);
+        return context.signal.aborted;
+      });
 
-      // 检查是否有重复
-      const uniqueHashes = new Set(hashes);
-      expect(uniqueHashes.size).toBe(keys.length);
+      expect(result).toBe(false);
+    });
+
+    it('should report the lock as no longer held after withLock returns', async () => {
+      let context: LockContext;
+      await service.withLock('test-key', async (current) => {
+        context = current;
+      });
 
-      // 检查分布范围
-      const min = Math.min(...hashes);
-      const max = Math.max(...hashes);
-      expect(max - min).toBeGreaterThan(1000); // 应该有合理的分布
+      expect(context.isHeld()).toBe(false);
+    });
+
+    it('should abort the signal when the ttl fires', async () => {
+      const backend = createFakeBackend();
+      const lockService = new DistributedLockService({}, backend);
+
+      const aborted = await lockService.withLock('test-key', async ({ signal, isHeld }) => {
+        await new Promise((resolve) => signal.addEventListener('abort', resolve));
+        return !isHeld();
+      }, { ttl: 20 });
+
+      expect(aborted).toBe(true);
+      expect(backend.release).toHaveBeenCalledTimes(1);
+    });
+
+    it('should abort the signal when the heartbeat fails', async () => {
+      const backend = createFakeBackend({ ping: jest.fn().mockRejectedValue(new Error('Connection terminated')) });
+      const lockService = new DistributedLockService({ heartbeatInterval: 10 }, backend);
+
+      const reason = await lockService.withLock('test-key', ({ signal }) => {
+        return new Promise<Error>((resolve) => signal.addEventListener('abort', () => resolve(signal.reason)));
+      });
+
+      expect(reason.message).toContain('heartbeat failed (Connection terminated)');
+    });
+
+    it('should abort the signal when the lock connection errors', async () => {
+      const backend = createFakeBackend();
+      let connectionLost: (error: Error) => void;
+      const unwatch = jest.fn();
+      backend.watch = jest.fn((_lease, onLost) => {
+        connectionLost = onLost;
+        return unwatch;
+      });
+      const lockService = new DistributedLockService({}, backend);
+
+      const result = await lockService.withLock('test-key', async ({ signal }) => {
+        connectionLost(new Error('Connection reset'));
+        return signal.aborted;
+      });
+
+      expect(result).toBe(true);
+      expect(unwatch).toHaveBeenCalled();
+    });
+  });
+
+  describe('heartbeat', () => {
+    const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+    it('should ping every held lock and report status', async () => {
+      const backend = createFakeBackend();
+      const lockService = new DistributedLockService({ heartbeatInterval: 10 }, backend);
+
+      const first = await lockService.acquire('first');
+      const second = await lockService.acquire('second');
+      await wait(60);
+
+      expect(backend.ping).toHaveBeenCalledWith(expect.objectContaining({ key: 'first' }));
+      expect(backend.ping).toHaveBeenCalledWith(expect.objectContaining({ key: 'second' }));
+      expect(first.lock.status).toBe('held');
+
+      await first.lock.release();
+      await second.lock.release();
+      expect(first.lock.status).toBe('released');
+
+      // 没有持有的锁后心跳停止
+      const calls = (backend.ping as jest.Mock).mock.calls.length;
+      await wait(30);
+      expect(backend.ping).toHaveBeenCalledTimes(calls);
+    });
+
+    it('should mark the lock lost and release the broken connection', async () => {
+      const backend = createFakeBackend();
+      (backend.ping as jest.Mock).mockImplementation(async (lease) => {
+        if (lease.key === 'broken') {
+          throw new Error('Connection terminated');
+        }
+      });
+      const lockService = new DistributedLockService({ heartbeatInterval: 10 }, backend);
+
+      const broken = await lockService.acquire('broken');
+      const healthy = await lockService.acquire('healthy');
+      await wait(60);
+
+      expect(broken.lock.status).toBe('lost');
+      expect(broken.lock.signal.aborted).toBe(true);
+      // 连接已确认不可用，后端据此销毁连接而不是在其上解锁
+      expect(backend.release).toHaveBeenCalledWith('broken', expect.objectContaining({
+        key: 'broken',
+        connectionError: expect.objectContaining({ message: 'Connection terminated' }),
+      }));
+      expect(healthy.lock.status).toBe('held');
+
+      await healthy.lock.release();
+    });
+
+    it('should treat a hanging ping as a failure', async () => {
+      const backend = createFakeBackend();
+      (backend.ping as jest.Mock).mockReturnValue(new Promise(() => { }));
+      const lockService = new DistributedLockService({ heartbeatInterval: 10, heartbeatTimeout: 5 }, backend);
+
+      const result = await lockService.acquire('test-key');
+      await wait(40);
+
+      expect(result.lock.status).toBe('lost');
     });
   });
 
@@ -288,4 +500,448 @@ describe('DistributedLockService', () => {
       expect(result.reason).toBe('timeout');
     });
   });
-});
\ No newline at end of file
+
+  describe('with the memory backend', () => {
+    let memoryModule: TestingModule;
+    let memoryService: DistributedLockService;
+
+    beforeEach(async () => {
+      memoryModule = await Test.createTestingModule({
+        imports: [DistributedLockModule.forRoot({ backend: 'memory', retryDelay: 10 })],
+      }).compile();
+
+      memoryService = memoryModule.get<DistributedLockService>(DistributedLockService);
+    });
+
+    afterEach(async () => {
+      await memoryModule.close();
+    });
+
+    describe('multiple keys', () => {
+      it('should hold every key until the handle is released', async () => {
+        const result = await memoryService.acquireMany(['account:2', 'account:1']);
+
+        expect(result.lock.key).toBe('account:2,account:1');
+        expect(await memoryService.isLocked('account:1')).toBe(true);
+        expect(await memoryService.isLocked('account:2')).toBe(true);
+        expect(memoryService.getHeldLocks().map((lock) => lock.key)).toEqual(['account:1', 'account:2']);
+
+        await result.lock.release();
+        expect(await memoryService.isLocked('account:1')).toBe(false);
+        expect(await memoryService.isLocked('account:2')).toBe(false);
+        expect(memoryService.getHeldLocks()).toEqual([]);
+      });
+
+      it('should roll back partial acquisitions', async () => {
+        const held = await memoryService.acquire('account:2');
+
+        const result = await memoryService.acquireMany(['account:1', 'account:2'], { timeout: 30 });
+
+        expect(result.acquired).toBe(false);
+        expect(result.reason).toBe('timeout');
+        expect(await memoryService.isLocked('account:1')).toBe(false);
+
+        await held.lock.release();
+      });
+
+      it('should not deadlock when callers list keys in different orders', async () => {
+        const transfer = (from: string, to: string) => memoryService.withLocks([from, to], async () => {
+          await new Promise((resolve) => setTimeout(resolve, 10));
+          return `${from}->${to}`;
+        }, { timeout: 1000 });
+
+        const results = await Promise.all([
+          transfer('account:1', 'account:2'),
+          transfer('account:2', 'account:1'),
+        ]);
+
+        expect(results).toEqual(['account:1->account:2', 'account:2->account:1']);
+      });
+    });
+
+    describe('reentrant', () => {
+      it('should re-enter a lock held by the same async context', async () => {
+        const backendAcquire = jest.spyOn(MemoryLockBackend.prototype, 'acquire');
+
+        const result = await memoryService.withLock('test-key', async () => {
+          return memoryService.withLock('test-key', async () => {
+            return memoryService.withLock('test-key', async () => 'inner', { reentrant: true });
+          }, { reentrant: true });
+        });
+
+        expect(result).toBe('inner');
+        expect(backendAcquire).toHaveBeenCalledTimes(1);
+        expect(await memoryService.isLocked('test-key')).toBe(false);
+
+        backendAcquire.mockRestore();
+      });
+
+      it('should keep the lock until the outermost holder finishes', async () => {
+        await memoryService.withLock('test-key', async () => {
+          await memoryService.withLock('test-key', async () => 'nested', { reentrant: true });
+          expect(await memoryService.isLocked('test-key')).toBe(true);
+        });
+
+        expect(await memoryService.isLocked('test-key')).toBe(false);
+      });
+
+      it('should release only after re-entered holders that outlive the outer callback finish', async () => {
+        let inner: Promise<void>;
+        let innerDone = false;
+
+        await memoryService.withLock('test-key', async () => {
+          inner = memoryService.withLock('test-key', async () => {
+            await new Promise((resolve) => setTimeout(resolve, 30));
+            expect(await memoryService.isLocked('test-key')).toBe(true);
+            innerDone = true;
+          }, { reentrant: true });
+        });
+
+        expect(innerDone).toBe(true);
+        expect(await memoryService.isLocked('test-key')).toBe(false);
+        await inner;
+      });
+
+      it('should re-enter held keys and acquire the rest in withLocks', async () => {
+        const result = await memoryService.withLock('account:1', () => {
+          return memoryService.withLocks(['account:1', 'account:2'], async (context) => {
+            expect(context.key).toBe('account:1,account:2');
+            expect(context.isHeld()).toBe(true);
+            expect(await memoryService.isLocked('account:2')).toBe(true);
+            return 'transferred';
+          }, { reentrant: true, timeout: 100 });
+        }, { reentrant: true });
+
+        expect(result).toBe('transferred');
+        expect(await memoryService.isLocked('account:1')).toBe(false);
+        expect(await memoryService.isLocked('account:2')).toBe(false);
+      });
+
+      it('should re-enter withLocks when every key is already held', async () => {
+        const backendAcquire = jest.spyOn(MemoryLockBackend.prototype, 'acquire');
+
+        const result = await memoryService.withLocks(['account:1', 'account:2'], () => {
+          return memoryService.withLocks(['account:2', 'account:1'], async () => 'nested', { reentrant: true, timeout: 100 });
+        });
+
+        expect(result).toBe('nested');
+        expect(backendAcquire).toHaveBeenCalledTimes(2);
+        backendAcquire.mockRestore();
+      });
+
+      it('should not share ownership with other async contexts', async () => {
+        const order: string[] = [];
+
+        await Promise.all([
+          memoryService.withLock('test-key', async () => {
+            await new Promise((resolve) => setTimeout(resolve, 20));
+            order.push('first');
+          }, { reentrant: true }),
+          memoryService.withLock('test-key', async () => {
+            order.push('second');
+          }, { reentrant: true }),
+        ]);
+
+        expect(order).toEqual(['first', 'second']);
+      });
+
+      it('should wait for itself without reentrant', async () => {
+        const result = await memoryService.withLock('test-key', () => {
+          return memoryService.withLockResult('test-key', async () => 'nested', { timeout: 30 });
+        });
+
+        expect(result.success).toBe(false);
+      });
+
+      it('should refuse to upgrade a shared lock', async () => {
+        await expect(memoryService.withReadLock('test-key', () => {
+          return memoryService.withWriteLock('test-key', async () => 'nested', { reentrant: true });
+        })).rejects.toThrow(LockReentryException);
+      });
+    });
+
+    describe('fair mode', () => {
+      it('should serve waiters in arrival order', async () => {
+        const holder = await memoryService.acquire('test-key');
+        const order: number[] = [];
+
+        const waiters = [1, 2, 3, 4].map((id) => memoryService.withLock('test-key', async () => {
+          order.push(id);
+        }, { fair: true, timeout: 2000 }));
+
+        await new Promise((resolve) => setTimeout(resolve, 20));
+        expect(memoryService.getQueueLength('test-key')).toBe(4);
+
+        await holder.lock.release();
+        await Promise.all(waiters);
+
+        expect(order).toEqual([1, 2, 3, 4]);
+        expect(memoryService.getQueueLength('test-key')).toBe(0);
+      });
+
+      it('should not let a non-waiting caller jump the queue', async () => {
+        const holder = await memoryService.acquire('test-key');
+        const waiter = memoryService.acquire('test-key', { fair: true, timeout: 2000 });
+
+        await holder.lock.release();
+        const barging = await memoryService.acquire('test-key', { fair: true, wait: false });
+
+        expect(barging.reason).toBe('held');
+        await (await waiter).lock.release();
+      });
+
+      it('should give up when the timeout elapses while queued', async () => {
+        const holder = await memoryService.acquire('test-key');
+        const first = memoryService.acquire('test-key', { fair: true, timeout: 1000 });
+        const second = await memoryService.acquire('test-key', { fair: true, timeout: 30 });
+
+        expect(second.reason).toBe('timeout');
+        expect(memoryService.getQueueLength('test-key')).toBe(1);
+
+        await holder.lock.release();
+        await (await first).lock.release();
+      });
+
+      it('should block on the backend from the queue head instead of polling', async () => {
+        const backend = createFakeBackend({
+          acquire: jest.fn((key: string) => new Promise((resolve) => setTimeout(() => resolve({ key, lockId: key }), 30))),
+        });
+        const lockService = new DistributedLockService({ fair: true }, backend);
+
+        const waiters = [1, 2].map(() => lockService.withLock('test-key', async () => undefined, { timeout: 1000 }));
+        await new Promise((resolve) => setTimeout(resolve, 10));
+
+        // 只有队首向后端发起阻塞获取，其余调用方在进程内排队
+        expect(backend.acquire).toHaveBeenCalledTimes(1);
+        expect(lockService.getQueueLength('test-key')).toBe(2);
+
+        await Promise.all(waiters);
+        expect(backend.acquire).toHaveBeenCalledTimes(2);
+        expect(backend.tryAcquire).not.toHaveBeenCalled();
+      });
+    });
+  });
+
+  describe('retryStrategy', () => {
+    const failingQueryRunner = (error: Error) => ({
+      connect: jest.fn().mockResolvedValue(undefined),
+      query: jest.fn().mockRejectedValue(error),
+      release: jest.fn().mockResolvedValue(undefined),
+    });
+
+    it('should not retry non-retryable errors', async () => {
+      const error = Object.assign(new Error('permission denied for function pg_advisory_lock'), { code: '42501' });
+      (dataSourceMock.createQueryRunner as jest.Mock).mockReturnValue(failingQueryRunner(error));
+
+      const result = await service.acquire('test-key', { maxRetries: 3, retryDelay: 1 });
+
+      expect(result.acquired).toBe(false);
+      expect(result.reason).toBe('unknown');
+      expect(result.error).toBeInstanceOf(LockAcquireFailedException);
+      expect(result.error.cause).toBe(error);
+      expect(result.error.attempts).toBe(1);
+      expect(dataSourceMock.createQueryRunner).toHaveBeenCalledTimes(1);
+    });
+
+    it('should retry connection errors up to maxRetries', async () => {
+      const error = Object.assign(new Error('read ECONNRESET'), { code: 'ECONNRESET' });
+      (dataSourceMock.createQueryRunner as jest.Mock).mockReturnValue(failingQueryRunner(error));
+
+      const result = await service.acquire('test-key', { maxRetries: 2, retryStrategy: { type: 'fixed', delay: 1 } });
+
+      expect(result.reason).toBe('timeout');
+      expect(dataSourceMock.createQueryRunner).toHaveBeenCalledTimes(3);
+    });
+
+    it('should stop retrying when custom strategy returns null', async () => {
+      const error = new Error('Connection terminated unexpectedly');
+      const strategy = jest.fn().mockReturnValue(null);
+      (dataSourceMock.createQueryRunner as jest.Mock).mockReturnValue(failingQueryRunner(error));
+
+      const result = await service.acquire('test-key', { maxRetries: 5, retryStrategy: strategy });
+
+      expect(result.reason).toBe('timeout');
+      expect(strategy).toHaveBeenCalledWith(1, error);
+      expect(dataSourceMock.createQueryRunner).toHaveBeenCalledTimes(1);
+    });
+
+    it('should compute fixed, linear and exponential delays', () => {
+      const fixed = createRetryDelay(undefined, 100);
+      const linear = createRetryDelay({ type: 'linear', delay: 100, increment: 50, maxDelay: 180 }, 10);
+      const exponential = createRetryDelay({ type: 'exponential', delay: 100, maxDelay: 500 }, 10);
+
+      expect([1, 2, 3].map((attempt) => fixed(attempt, null))).toEqual([100, 100, 100]);
+      expect([1, 2, 3].map((attempt) => linear(attempt, null))).toEqual([100, 150, 180]);
+      expect([1, 2, 3, 4].map((attempt) => exponential(attempt, null))).toEqual([100, 200, 400, 500]);
+    });
+
+    it('should keep jittered delays within bounds', () => {
+      const full = createRetryDelay({ type: 'exponential', delay: 100, jitter: 'full' }, 10);
+      const decorrelated = createRetryDelay({ type: 'exponential', delay: 100, maxDelay: 1000, jitter: 'decorrelated' }, 10);
+
+      for (let attempt = 1; attempt <= 5; attempt++) {
+        expect(full(attempt, null)).toBeLessThanOrEqual(100 * 2 ** (attempt - 1));
+        const delay = decorrelated(attempt, null);
+        expect(delay).toBeGreaterThanOrEqual(100);
+        expect(delay).toBeLessThanOrEqual(1000);
+      }
+    });
+
+    it('should classify errors', () => {
+      expect(isRetryableLockError(Object.assign(new Error('deadlock'), { code: '40P01' }))).toBe(true);
+      expect(isRetryableLockError(Object.assign(new Error('conn'), { code: '08006' }))).toBe(true);
+      expect(isRetryableLockError(new Error('Connection terminated unexpectedly'))).toBe(true);
+      expect(isRetryableLockError(Object.assign(new Error('syntax error'), { code: '42601' }))).toBe(false);
+      expect(isRetryableLockError(new Error('MySQL backend does not support shared locks'))).toBe(false);
+    });
+  });
+
+  describe('typed exceptions', () => {
+    it('should return LockAlreadyHeldException when the lock is held', async () => {
+      (dataSourceMock.createQueryRunner as jest.Mock).mockReturnValue({
+        connect: jest.fn().mockResolvedValue(undefined),
+        query: jest.fn().mockResolvedValue([{ locked: false }]),
+        release: jest.fn().mockResolvedValue(undefined),
+      });
+
+      const result = await service.acquire('test-key', { wait: false });
+
+      expect(result.error).toBeInstanceOf(LockAlreadyHeldException);
+      expect(result.error.key).toBe('test-key');
+      expect(result.error.reason).toBe('held');
+      expect(result.error.attempts).toBe(1);
+      expect(result.error.elapsed).toBeGreaterThanOrEqual(0);
+    });
+
+    it('should throw LockAcquireTimeoutException with attempts from withLock', async () => {
+      (dataSourceMock.createQueryRunner as jest.Mock).mockReturnValue({
+        connect: jest.fn().mockResolvedValue(undefined),
+        query: jest.fn().mockRejectedValue(new Error('Connection terminated unexpectedly')),
+        release: jest.fn().mockResolvedValue(undefined),
+      });
+
+      await expect(service.withLock('test-key', jest.fn(), { maxRetries: 2, retryDelay: 1 }))
+        .rejects.toMatchObject({
+          constructor: LockAcquireTimeoutException,
+          errorCode: 'LOCK_ACQUIRE_TIMEOUT',
+          attempts: 3,
+          cause: expect.objectContaining({ message: 'Connection terminated unexpectedly' }),
+        });
+    });
+
+    it('should convert thrown exceptions with errorFactory', async () => {
+      class CustomLockError extends Error { }
+      const errorFactory = jest.fn((error: Error) => new CustomLockError(error.message));
+      const moduleWithFactory = await Test.createTestingModule({
+        imports: [DistributedLockModule.forRoot({ backend: 'memory', errorFactory })],
+      }).compile();
+      const serviceWithFactory = moduleWithFactory.get(DistributedLockService);
+
+      await serviceWithFactory.withLock('test-key', async () => {
+        await expect(serviceWithFactory.withLock('test-key', jest.fn(), { wait: false }))
+          .rejects.toBeInstanceOf(CustomLockError);
+      });
+
+      expect(errorFactory).toHaveBeenCalledWith(expect.any(LockAlreadyHeldException), undefined);
+      await moduleWithFactory.close();
+    });
+  });
+
+  describe('graceful shutdown', () => {
+    const createService = async (shutdownGracePeriod?: number) => {
+      const shutdownModule = await Test.createTestingModule({
+        imports: [DistributedLockModule.forRoot({ backend: 'memory', shutdownGracePeriod })],
+      }).compile();
+      return { shutdownModule, lockService: shutdownModule.get(DistributedLockService) };
+    };
+
+    it('should release held locks and refuse new acquisitions', async () => {
+      const { shutdownModule, lockService } = await createService();
+      const { lock } = await lockService.acquire('test-key', { ttl: 60000 });
+      const onLost = jest.fn();
+      lock.onLost(onLost);
+
+      await lockService.beforeApplicationShutdown();
+
+      expect(lock.status).toBe('lost');
+      expect(lock.signal.aborted).toBe(true);
+      expect(onLost).toHaveBeenCalledWith(expect.objectContaining({ message: expect.stringContaining('shutting down') }));
+      expect(lockService.getHeldLocks()).toEqual([]);
+      expect(await lockService.isLocked('test-key')).toBe(false);
+
+      const result = await lockService.acquire('other-key');
+      expect(result.acquired).toBe(false);
+      expect(result.error).toBeInstanceOf(LockAcquireFailedException);
+      await shutdownModule.close();
+    });
+
+    it('should wait for running callbacks within the grace period', async () => {
+      const { shutdownModule, lockService } = await createService(500);
+      let aborted: boolean;
+
+      const running = lockService.withLock('test-key', async ({ signal }) => {
+        await new Promise((resolve) => setTimeout(resolve, 30));
+        aborted = signal.aborted;
+      });
+      await new Promise((resolve) => setTimeout(resolve, 5));
+
+      await shutdownModule.close();
+
+      await running;
+      expect(aborted).toBe(false);
+      expect(lockService.getHeldLocks()).toEqual([]);
+    });
+
+    it('should give up on locks whose release hangs', async () => {
+      const backend = createFakeBackend({ release: jest.fn(() => new Promise<boolean>(() => { })) });
+      const lockService = new DistributedLockService({ shutdownGracePeriod: 50, shutdownReleaseTimeout: 100 }, backend);
+      const warn = jest.spyOn(lockService['logger'], 'warn');
+      await lockService.acquire('stuck-key');
+
+      const startedAt = Date.now();
+      await lockService.beforeApplicationShutdown();
+
+      expect(Date.now() - startedAt).toBeLessThan(1000);
+      expect(warn).toHaveBeenCalledWith(expect.stringContaining('gave up releasing 1 locks after 100ms on shutdown: stuck-key'));
+      expect(lockService.getHeldLocks()).toEqual([]);
+    });
+
+    it('should cancel acquisitions still waiting on the backend or in the fair queue', async () => {
+      const { shutdownModule, lockService } = await createService();
+      const holder = await lockService.acquire('test-key');
+      const blocked = lockService.acquire('test-key', { timeout: 30000 });
+      const queued = lockService.acquire('other-key', { fair: true, timeout: 30000 });
+      const queuedBehind = lockService.acquire('other-key', { fair: true, timeout: 30000 });
+      await new Promise((resolve) => setTimeout(resolve, 10));
+
+      const startedAt = Date.now();
+      await lockService.beforeApplicationShutdown();
+
+      for (const result of await Promise.all([blocked, queuedBehind])) {
+        expect(result.acquired).toBe(false);
+        expect(result.error).toBeInstanceOf(LockAcquireFailedException);
+        expect(result.error.cause).toEqual(expect.objectContaining({ message: 'Lock service is shutting down' }));
+      }
+      expect(Date.now() - startedAt).toBeLessThan(1000);
+      expect(holder.lock.status).toBe('lost');
+      expect((await queued).lock.status).toBe('lost');
+      await shutdownModule.close();
+    });
+
+    it('should abort callbacks that outlive the grace period', async () => {
+      const { shutdownModule, lockService } = await createService(10);
+      let signal: AbortSignal;
+
+      const running = lockService.withLock('test-key', async (context) => {
+        signal = context.signal;
+        await new Promise((resolve) => setTimeout(resolve, 100));
+      });
+      await new Promise((resolve) => setTimeout(resolve, 5));
+
+      await shutdownModule.close();
+
+      expect(signal.aborted).toBe(true);
+      await running;
+    });
+  });
+});
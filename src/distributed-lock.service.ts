@@ -1,22 +1,93 @@
-import { Injectable, Inject, Optional, Logger } from '@nestjs/common';
-import { DataSource } from 'typeorm';
+import { AsyncLocalStorage } from 'async_hooks';
+import { randomUUID } from 'crypto';
+import { ArgumentsHost, BeforeApplicationShutdown, Injectable, Inject, Logger } from '@nestjs/common';
 
-import { DistributedLockOptions, LockAcquireOptions, AnyDataSource } from './interfaces';
+import {
+  DistributedLockOptions,
+  LockAcquireOptions,
+  LockBackend,
+  LockBackendAcquireOptions,
+  LockLease,
+  LockMode,
+  SingletonJobOptions,
+  SingletonJobResult,
+} from './interfaces';
 import {
   DISTRIBUTED_LOCK_MODULE_OPTIONS,
+  DISTRIBUTED_LOCK_BACKEND,
   DEFAULT_TIMEOUT,
   DEFAULT_MAX_RETRIES,
   DEFAULT_RETRY_DELAY,
+  DEFAULT_SHUTDOWN_RELEASE_TIMEOUT,
+  NAMESPACED_KEY_PREFIX,
 } from './distributed-lock.constants';
 import {
+  DistributedLockException,
+  LockAcquireFailedException,
   LockAcquireTimeoutException,
   LockAlreadyHeldException,
-  LockNotHeldException,
+  LockFailureDetails,
+  LockFailureReason,
+  LockReentryException,
 } from './exceptions';
+import { ManagedLockHandle } from './distributed-lock.handle';
+import { LockWaitQueue } from './distributed-lock.queue';
+import { createRetryDelay, isRetryableLockError } from './distributed-lock.retry';
+
+/** 锁句柄状态：持有中、已丢失（TTL到期、续期或心跳失败、连接断开）、已释放 */
+export type LockStatus = 'held' | 'lost' | 'released';
 
 export interface LockHandle {
+  /** 锁键，acquireMany 获取的多键锁为以逗号连接的键 */
   key: string;
+  /** 本次持有的唯一标识（owner token） */
+  token: string;
+  /**
+   * 防护令牌，同一个键每次成功获取单调递增（仅在开启 fencing 时提供）
+   * 下游写入时携带该值，存储层拒绝小于已见最大值的写入即可发现过期的持有者
+   */
+  fencingToken?: number;
   release: () => Promise<void>;
+  /**
+   * 将锁的持有时间重置为从现在起 ms 毫秒
+   * 锁已释放或已丢失时返回false，续期失败时锁会被标记为丢失
+   */
+  extend: (ms: number) => Promise<boolean>;
+  /** 注册锁丢失（TTL到期、续期失败或连接断开）的回调 */
+  onLost: (listener: (error: Error) => void) => void;
+  /** 锁丢失时触发abort的信号 */
+  readonly signal: AbortSignal;
+  /** 当前状态，心跳失败后变为 'lost' */
+  readonly status: LockStatus;
+}
+
+/** 当前进程持有的一把锁 */
+export interface HeldLockInfo {
+  /** 含命名空间前缀的完整锁键 */
+  key: string;
+  /** 后端内部的锁标识（如advisory lock的整数键） */
+  lockId: string | number;
+  mode: LockMode;
+  /** 持有者token */
+  token: string;
+  fencingToken?: number;
+  acquiredAt: Date;
+  /** 当前的持有时间（毫秒），续期后会更新 */
+  ttl?: number;
+  /** 持有锁的会话（数据库后端为QueryRunner） */
+  session?: any;
+}
+
+/**
+ * 传给 withLock 回调的上下文
+ * 长时间运行的任务应检查 signal，锁丢失后尽快退出，避免在无锁状态下继续写入
+ */
+export interface LockContext {
+  key: string;
+  /** 锁丢失时触发abort */
+  signal: AbortSignal;
+  /** 锁是否仍被持有，锁丢失或已释放后返回false */
+  isHeld: () => boolean;
 }
 
 export interface LockAcquireResult {
@@ -24,206 +95,525 @@ export interface LockAcquireResult {
   acquired: boolean;
   /** 锁句柄（仅在acquired=true时有效） */
   lock?: LockHandle;
-  /** 错误信息（仅在acquired=false时有效） */
-  error?: Error;
+  /** 错误信息（仅在acquired=false时有效），包含重试次数和耗时 */
+  error?: DistributedLockException;
   /** 失败原因 */
-  reason?: 'timeout' | 'held' | 'unknown';
+  reason?: LockFailureReason;
+}
+
+/** 当前异步上下文中已持有的锁 */
+interface ContextLock {
+  lock: LockHandle;
+  mode: LockMode;
+  /** 重入次数，最外层持有者为1 */
+  holds: number;
+  /** 最外层持有者结束时仍有重入的持有者，等它们全部结束后再释放锁 */
+  onIdle?: () => void;
 }
 
 @Injectable()
-export class DistributedLockService {
+export class DistributedLockService implements BeforeApplicationShutdown {
   private readonly logger = new Logger(DistributedLockService.name);
   private readonly defaultTimeout: number;
   private readonly maxRetries: number;
   private readonly retryDelay: number;
-  private readonly dataSource: AnyDataSource;
+  private readonly namespace?: string;
+  /** 当前进程持有的锁，按完整锁键索引（共享锁可能有多个持有者） */
+  private readonly heldLocks = new Map<string, Set<ManagedLockHandle>>();
+  private heartbeatTimer?: NodeJS.Timeout;
+  private heartbeatRunning = false;
+  /** withLock 回调所在异步上下文持有的锁，按完整锁键索引，用于重入 */
+  private readonly contextLocks = new AsyncLocalStorage<Map<string, ContextLock>>();
+  /** 公平模式下进程内的等待队列 */
+  private readonly waitQueue = new LockWaitQueue();
+  /** 正在执行的 withLock 回调和拦截器中的处理，关闭时在宽限期内等待其完成 */
+  private readonly runningCallbacks = new Set<Promise<unknown>>();
+  /** 进行中的获取请求，关闭时取消并等待其结束 */
+  private readonly pendingAcquisitions = new Set<Promise<unknown>>();
+  /** 关闭时触发，中断后端中阻塞等待的获取请求 */
+  private readonly shutdownController = new AbortController();
+  private shuttingDown = false;
 
   constructor(
     @Inject(DISTRIBUTED_LOCK_MODULE_OPTIONS)
     private readonly options: DistributedLockOptions,
-    @Optional() @Inject(DataSource) private readonly defaultDataSource?: AnyDataSource,
+    @Inject(DISTRIBUTED_LOCK_BACKEND)
+    private readonly backend: LockBackend,
   ) {
     this.defaultTimeout = options.defaultTimeout ?? DEFAULT_TIMEOUT;
     this.maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
     this.retryDelay = options.retryDelay ?? DEFAULT_RETRY_DELAY;
+    this.namespace = this.validateNamespace(options.namespace);
+
+    if (options.fencing && !backend.fence) {
+      throw new Error(`Fencing tokens are not supported by the ${backend.name} backend`);
+    }
+  }
+
+  /**
+   * 应用关闭时不再接受新的获取请求并取消等待中的请求，在 shutdownGracePeriod 内等待进行中的回调，然后释放所有持有的锁
+   * 放在 beforeApplicationShutdown 中执行，此时数据源尚未在 onApplicationShutdown 中关闭，仍能正常解锁
+   */
+  async beforeApplicationShutdown(): Promise<void> {
+    this.shuttingDown = true;
+    this.shutdownController.abort(new Error('Lock service is shutting down'));
+    this.waitQueue.cancelAll();
+
+    const gracePeriod = this.options.shutdownGracePeriod ?? 0;
+    if (gracePeriod > 0 && this.runningCallbacks.size) {
+      this.logger.log(`waiting up to ${gracePeriod}ms for ${this.runningCallbacks.size} lock callbacks`);
+      await this.waitAtMost(Promise.allSettled([...this.runningCallbacks]), gracePeriod);
+    }
+
+    clearInterval(this.heartbeatTimer);
+    this.heartbeatTimer = undefined;
+
+    // 持锁连接无响应时解锁也会卡住，超过 shutdownReleaseTimeout 后放弃，由数据库在连接断开时回收
+    const handles = this.getHeldHandles();
+    const unreleased = new Set(handles);
+    const releaseTimeout = this.options.shutdownReleaseTimeout ?? DEFAULT_SHUTDOWN_RELEASE_TIMEOUT;
+    const settled = await this.waitAtMost(Promise.all([
+      ...handles.map((handle) => handle
+        .revoke(new Error(`Lock ${handle.key} released: application is shutting down`))
+        .finally(() => unreleased.delete(handle))),
+      Promise.allSettled([...this.pendingAcquisitions]),
+    ]), releaseTimeout);
+
+    if (unreleased.size) {
+      const keys = [...unreleased].map((handle) => handle.key).join(', ');
+      this.logger.warn(`gave up releasing ${unreleased.size} locks after ${releaseTimeout}ms on shutdown: ${keys}`);
+    } else if (!settled) {
+      this.logger.warn(`gave up waiting for ${this.pendingAcquisitions.size} lock acquisitions after ${releaseTimeout}ms on shutdown`);
+    }
 
-    // 使用自定义数据源（支持代理数据源）或默认数据源
-    if (!options.dataSource && !defaultDataSource) {
-      throw new Error('DataSource is required. Please either provide a dataSource option or ensure TypeORM DataSource is available.');
+    const released = handles.length - unreleased.size;
+    if (released) {
+      this.logger.log(`released ${released} locks on shutdown`);
     }
-    this.dataSource = options.dataSource || defaultDataSource!;
+  }
+
+  /** 应用是否正在关闭，关闭期间不再接受新的获取请求 */
+  isShuttingDown(): boolean {
+    return this.shuttingDown;
+  }
+
+  /**
+   * 登记持锁期间进行中的工作（如拦截器中的请求处理），应用关闭时在 shutdownGracePeriod 内等待其完成
+   * withLock 的回调会自动登记
+   */
+  trackRunning<T>(running: Promise<T>): Promise<T> {
+    this.runningCallbacks.add(running);
+    running.finally(() => this.runningCallbacks.delete(running)).catch(() => { });
+    return running;
   }
 
   async acquire(key: string, options: LockAcquireOptions = {}): Promise<LockAcquireResult> {
+    return this.acquireKeys(key, [this.resolveKey(key, options.namespace)], options);
+  }
+
+  /**
+   * 同时获取多把锁，返回一个释放全部锁的句柄
+   * 后端支持时在同一个连接上按规范顺序获取，否则按键排序逐个获取；
+   * 任意一把锁未能获取时回滚已获取的锁。多键锁不生成防护令牌
+   */
+  async acquireMany(keys: string[], options: LockAcquireOptions = {}): Promise<LockAcquireResult> {
+    if (!keys.length) {
+      throw new Error('acquireMany requires at least one key');
+    }
+
+    const resourceKeys = [...new Set(keys.map((key) => this.resolveKey(key, options.namespace)))];
+    if (resourceKeys.length === 1) {
+      return this.acquire(keys[0], options);
+    }
+
+    return this.acquireKeys(keys.join(','), resourceKeys.sort(), options);
+  }
+
+  private acquireKeys(
+    key: string,
+    resourceKeys: string[],
+    options: LockAcquireOptions,
+  ): Promise<LockAcquireResult> {
+    // 登记进行中的获取请求，关闭时等待它们被取消并归还已获取的锁
+    const pending = this.acquireFromBackend(key, resourceKeys, options);
+    this.pendingAcquisitions.add(pending);
+    pending.finally(() => this.pendingAcquisitions.delete(pending)).catch(() => { });
+    return pending;
+  }
+
+  private async acquireFromBackend(
+    key: string,
+    resourceKeys: string[],
+    options: LockAcquireOptions,
+  ): Promise<LockAcquireResult> {
     const {
       timeout = this.defaultTimeout,
       wait = true,
       maxRetries = this.maxRetries,
       retryDelay = this.retryDelay,
+      retryStrategy = this.options.retryStrategy,
       ttl,
+      mode = 'exclusive',
+      scope = 'session',
+      autoRenew,
+      renewInterval,
     } = options;
 
-    const lockKey = this.generateLockKey(key);
-    this.logger.debug(`acquiring lock for: ${lockKey} original key: ${key}`);
+    const label = resourceKeys.join(',');
+    this.logger.debug(`acquiring lock for: ${label} backend: ${this.backend.name}`);
+
+    // timeout 是整个获取过程的截止时间，重试和排队都不会延长等待
+    const startedAt = Date.now();
+    const deadline = startedAt + timeout;
+    const nextDelay = createRetryDelay(retryStrategy, retryDelay);
+    let attempts = 0;
+    let lastError: Error | undefined;
+    const fail = (reason: LockFailureReason) => this.acquireFailure(key, timeout, {
+      reason,
+      attempts,
+      elapsed: Date.now() - startedAt,
+      cause: lastError,
+    });
+
+    const shutdownFailure = () => {
+      lastError = new Error('Lock service is shutting down');
+      return fail('unknown');
+    };
+
+    if (this.shuttingDown) {
+      return shutdownFailure();
+    }
 
-    for (let attempt = 0; attempt <= maxRetries; attempt++) {
+    let queryRunner: any;
+    if (scope === 'transaction') {
       try {
-        const { acquired, queryRunner } = await this.tryAcquireLock(lockKey, timeout, wait);
-
-        if (acquired) {
-          this.logger.debug(`acquire lock success: ${lockKey} original key: ${key}`);
-
-          let timeoutId: NodeJS.Timeout;
-          if (ttl) {
-            timeoutId = setTimeout(() => {
-              this.logger.debug(`Lock ${key} expired after ${ttl}ms`);
-              this.releaseWithRunner(key, lockKey, queryRunner).catch((err) => {
-                this.logger.error(`Failed to release expired lock ${key}`, err);
-              });
-            }, ttl);
-          }
+        queryRunner = this.resolveTransaction(label, options.transaction);
+      } catch (error) {
+        lastError = error;
+        return fail('unknown');
+      }
+    }
+    const token = randomUUID();
+    // 配置了 retryStrategy 时，轮询等待的后端在锁被占用时同样按它计算间隔
+    const nextPoll = retryStrategy ? createRetryDelay(retryStrategy, retryDelay) : undefined;
+    const pollDelay = nextPoll
+      && ((attempt: number) => nextPoll(attempt, new LockAlreadyHeldException(key, { attempts: attempt })));
+    const backendOptions = { ttl, mode, scope, queryRunner, token, signal: this.shutdownController.signal, pollDelay };
+
+    // 公平模式：进程内按到达顺序排队，轮到自己时再阻塞等待后端的锁队列
+    const fair = options.fair ?? this.options.fair ?? false;
+    if (fair && !wait && resourceKeys.some((resourceKey) => this.waitQueue.size(resourceKey) > 0)) {
+      return fail('held');
+    }
 
-          return {
-            acquired: true,
-            lock: {
-              key,
-              release: async () => {
-                if (ttl) {
-                  clearTimeout(timeoutId);
-                }
-                await this.releaseWithRunner(key, lockKey, queryRunner);
-              },
-            },
-          };
-        }
+    const queued = fair && wait;
+    if (queued && !await this.waitQueue.enterAll(resourceKeys, timeout)) {
+      if (this.shuttingDown) {
+        return shutdownFailure();
+      }
+      this.logger.debug(`acquire lock timeout: ${key} after ${timeout}ms in queue`);
+      return fail('timeout');
+    }
 
-        if (!wait) {
-          return {
-            acquired: false,
-            reason: 'held',
-            error: new Error(`Lock ${key} is already held`),
-          };
+    try {
+      for (let attempt = 0; attempt <= maxRetries; attempt++) {
+        const remaining = deadline - Date.now();
+        if (wait && remaining <= 0) {
+          break;
         }
 
-        if (attempt < maxRetries) {
-          this.logger.debug(
-            `锁占用，等待重试: ${key} (${attempt + 1}/${maxRetries})`,
+        try {
+          attempts++;
+          const leases = await this.takeLeases(
+            resourceKeys,
+            { ...backendOptions, timeout: wait ? remaining : timeout },
+            wait,
           );
-          await this.sleep(retryDelay);
-        }
-      } catch (error) {
-        if (attempt === maxRetries) {
-          this.logger.debug(`acquire lock timeout: ${key} after ${maxRetries} attempts`);
-          return {
-            acquired: false,
-            reason: 'timeout',
-            error: new Error(`Lock ${key} acquisition timeout after ${timeout}ms`),
-          };
+
+          if (leases) {
+            // 等待期间应用开始关闭，不再交出新的锁
+            if (this.shuttingDown) {
+              await Promise.all(leases.map((lease) => this.releaseLease(lease)));
+              return shutdownFailure();
+            }
+
+            this.logger.debug(`acquire lock success: ${leases.map((lease) => lease.lockId).join(',')} original key: ${label}`);
+
+            const fencingToken = this.options.fencing && resourceKeys.length === 1
+              ? await this.fenceLease(leases[0])
+              : undefined;
+
+            // 后端自行设置了过期时间（如Redis的 defaultTtl）时，按该时间检测到期并默认续期
+            const leaseTtl = ttl ?? this.leaseTtl(leases);
+            const handle = new ManagedLockHandle({
+              key,
+              token,
+              fencingToken,
+              leases,
+              ttl: leaseTtl,
+              autoRenew: autoRenew ?? (ttl === undefined && leaseTtl !== undefined),
+              renewInterval,
+              releaseLease: (expired) => this.releaseLease(expired),
+              extendLease: (held, ms) => this.backend.extend(held, ms),
+              ping: this.backend.ping?.bind(this.backend),
+              watch: this.backend.watch?.bind(this.backend),
+              onSettled: (settled) => this.untrack(settled),
+              logger: this.logger,
+            });
+            this.track(handle);
+
+            return { acquired: true, lock: handle };
+          }
+
+          if (this.shuttingDown) {
+            return shutdownFailure();
+          }
+
+          if (!wait) {
+            return fail('held');
+          }
+
+          // 阻塞模式下后端返回null说明已等到截止时间
+          break;
+        } catch (error) {
+          // 关闭时后端的等待被中断，不再重试
+          if (this.shuttingDown) {
+            return shutdownFailure();
+          }
+
+          lastError = error;
+
+          // SQL错误、权限不足等重试也不会成功，直接返回
+          if (!isRetryableLockError(error)) {
+            this.logger.debug(`acquire lock failed: ${key} with non-retryable error`, error);
+            return fail('unknown');
+          }
+
+          const delay = attempt < maxRetries ? nextDelay(attempt + 1, error) : null;
+          if (delay === null) {
+            this.logger.debug(`acquire lock failed: ${key} after ${attempt} retries`, error);
+            break;
+          }
+
+          await this.sleep(Math.min(Math.max(0, delay), Math.max(0, deadline - Date.now())));
+          if (this.shuttingDown) {
+            return shutdownFailure();
+          }
         }
+      }
 
-        await this.sleep(retryDelay);
+      this.logger.debug(`acquire lock timeout: ${key} after ${timeout}ms`);
+      return fail('timeout');
+    } finally {
+      if (queued) {
+        resourceKeys.forEach((resourceKey) => this.waitQueue.leave(resourceKey));
       }
     }
-
-    // 理论上不会到达这里，但作为兜底
-    return {
-      acquired: false,
-      reason: 'unknown',
-      error: new Error(`Lock ${key} acquisition failed`),
-    };
   }
 
-  private async tryAcquireLock(
-    lockKey: number,
-    timeout: number,
+  /**
+   * 从后端获取一把或多把锁，未能全部获取时返回null
+   */
+  private async takeLeases(
+    resourceKeys: string[],
+    options: LockBackendAcquireOptions,
     wait: boolean,
-  ): Promise<{ acquired: boolean; queryRunner?: any }> {
-    const queryRunner = this.dataSource.createQueryRunner();
+  ): Promise<LockLease[] | null> {
+    if (resourceKeys.length === 1) {
+      const lease = wait
+        ? await this.backend.acquire(resourceKeys[0], options)
+        : await this.backend.tryAcquire(resourceKeys[0], options);
+      return lease ? [lease] : null;
+    }
+
+    // 事务级锁本身就在调用方的同一个连接上，逐个获取即可
+    if (this.backend.acquireMany && options.scope !== 'transaction') {
+      const lease = await this.backend.acquireMany(resourceKeys, options, wait);
+      return lease ? [lease] : null;
+    }
+
+    // 按排好序的键逐个获取，所有进程顺序一致，不会互相等待形成死锁
+    const deadline = Date.now() + options.timeout;
+    const leases: LockLease[] = [];
 
     try {
-      await queryRunner.connect();
-
-      if (wait) {
-        await queryRunner.query('SELECT pg_advisory_lock($1)', [lockKey]);
-        // 注意：不释放queryRunner，保持事务和锁
-        return { acquired: true, queryRunner };
-      } else {
-        const result = await queryRunner.query(
-          'SELECT pg_try_advisory_lock($1) AS locked',
-          [lockKey],
-        );
-
-        const locked = result[0]?.locked === true;
-        // 对于非阻塞锁，如果获取成功，我们需要保持queryRunner和锁
-        if (locked) {
-          return { acquired: true, queryRunner };
+      for (const resourceKey of resourceKeys) {
+        const remaining = deadline - Date.now();
+        const lease = !wait
+          ? await this.backend.tryAcquire(resourceKey, options)
+          : remaining > 0
+            ? await this.backend.acquire(resourceKey, { ...options, timeout: remaining })
+            : null;
+
+        if (!lease) {
+          await Promise.all(leases.map((held) => this.releaseLease(held)));
+          return null;
         }
-
-        await queryRunner.release();
-        return { acquired: false };
+        leases.push(lease);
       }
+      return leases;
     } catch (error) {
-      await queryRunner.release().catch(() => { });
+      await Promise.all(leases.map((held) => this.releaseLease(held)));
       throw error;
     }
   }
 
-  async release(key: string): Promise<void> {
-    const lockKey = this.generateLockKey(key);
-    this.logger.debug(`releasing lock: ${lockKey} original key: ${key}`);
-
+  /**
+   * 生成防护令牌，失败时释放刚获取的锁，避免锁泄漏
+   */
+  private async fenceLease(lease: LockLease): Promise<number> {
     try {
-      const result = await this.dataSource.query(
-        'SELECT pg_advisory_unlock($1) AS unlocked',
-        [lockKey],
-      );
+      return await this.backend.fence(lease);
+    } catch (error) {
+      await this.releaseLease(lease);
+      throw error;
+    }
+  }
+
+  private track(handle: ManagedLockHandle): void {
+    // 锁可能在构造句柄时就已因连接异常丢失
+    if (handle.status !== 'held') {
+      return;
+    }
+
+    for (const resourceKey of handle.resourceKeys) {
+      const handles = this.heldLocks.get(resourceKey) ?? new Set<ManagedLockHandle>();
+      handles.add(handle);
+      this.heldLocks.set(resourceKey, handles);
+    }
+
+    if (this.options.heartbeatInterval && this.backend.ping && !this.heartbeatTimer) {
+      this.heartbeatTimer = setInterval(() => {
+        this.runHeartbeat().catch(() => { });
+      }, this.options.heartbeatInterval);
+    }
+  }
 
-      if (!result[0]?.unlocked) {
-        // 不要抛出异常，只记录警告
-        // 因为PostgreSQL advisory lock可能在事务结束时自动释放
-        this.logger.debug(`release ignored, lock not held: ${lockKey} original key: ${key}`);
+  private untrack(handle: ManagedLockHandle): void {
+    for (const resourceKey of handle.resourceKeys) {
+      const handles = this.heldLocks.get(resourceKey);
+      handles?.delete(handle);
+      if (!handles?.size) {
+        this.heldLocks.delete(resourceKey);
       }
+    }
 
-      this.logger.debug(`release lock success: ${key}`);
-    } catch (error) {
-      this.logger.error(`Failed to release lock ${key}:`, error);
-      // 不要重新抛出错误，避免影响业务逻辑
+    // 没有持有的锁时停止心跳，避免空转的定时器阻止进程退出
+    if (!this.heldLocks.size && this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = undefined;
     }
   }
 
-  private async releaseWithRunner(key: string, lockKey: number, queryRunner: any): Promise<void> {
-    this.logger.debug(`releasing lock with runner: ${lockKey} original key: ${key}`);
+  /**
+   * 对所有持有的锁执行一轮连接健康检查
+   * 上一轮还没结束时跳过，避免在慢连接上堆积查询
+   */
+  private async runHeartbeat(): Promise<void> {
+    if (this.heartbeatRunning) {
+      return;
+    }
 
+    this.heartbeatRunning = true;
     try {
-      if (queryRunner) {
-        // 使用相同的queryRunner释放锁
-        await queryRunner.query('SELECT pg_advisory_unlock($1) AS unlocked', [lockKey]);
-        await queryRunner.release();
-      } else {
-        // 回退到常规释放
-        await this.release(key);
-      }
+      const handles = this.getHeldHandles();
+      const results = await Promise.all(
+        handles.map((handle) => handle.checkHealth(this.options.heartbeatTimeout ?? this.options.heartbeatInterval)),
+      );
 
-      this.logger.debug(`release lock success: ${key}`);
+      const lost = results.filter((healthy) => !healthy).length;
+      this.logger.debug(`heartbeat checked ${handles.length} locks, ${lost} lost`);
+    } finally {
+      this.heartbeatRunning = false;
+    }
+  }
+
+  /**
+   * 按键释放当前进程持有的锁
+   * 锁必须在持有它的会话上释放，因此只能释放本服务实例通过 acquire 获取的锁；
+   * 键属于 acquireMany 获取的多键锁时整组释放
+   */
+  async release(key: string, options: Pick<LockAcquireOptions, 'namespace'> = {}): Promise<void> {
+    const resourceKey = this.resolveKey(key, options.namespace);
+    this.logger.debug(`releasing lock: ${resourceKey}`);
+
+    const handles = this.heldLocks.get(resourceKey);
+    if (!handles?.size) {
+      // 不要抛出异常，只记录日志
+      // 锁可能已经释放、TTL到期，或者由其他进程持有
+      this.logger.debug(`release ignored, lock not held by this process: ${resourceKey}`);
+      return;
+    }
+
+    try {
+      await Promise.all([...handles].map((handle) => handle.release()));
+      this.logger.debug(`release lock success: ${resourceKey}`);
     } catch (error) {
-      // 确保释放queryRunner
-      if (queryRunner) {
-        await queryRunner.release().catch(() => { });
-      }
-      this.logger.error(`Failed to release lock ${key}:`, error);
+      this.logger.error(`Failed to release lock ${resourceKey}:`, error);
+      // 不要重新抛出错误，避免影响业务逻辑
     }
   }
 
-  async isLocked(key: string): Promise<boolean> {
-    const lockKey = this.generateLockKey(key);
+  /**
+   * 公平模式下在本进程排队等待该锁的调用方数量（包括正在向后端请求锁的队首），用于监控
+   */
+  getQueueLength(key: string, options: Pick<LockAcquireOptions, 'namespace'> = {}): number {
+    return this.waitQueue.size(this.resolveKey(key, options.namespace));
+  }
+
+  /**
+   * 返回当前服务实例持有的所有锁，用于诊断和测试
+   */
+  getHeldLocks(): HeldLockInfo[] {
+    return this.getHeldHandles().flatMap((handle) => handle.describe());
+  }
+
+  private getHeldHandles(): ManagedLockHandle[] {
+    // 多键锁在每个键下都有登记
+    return [...new Set([...this.heldLocks.values()].flatMap((handles) => [...handles]))];
+  }
+
+  /** 租约中最早过期的时间，后端没有设置过期时间时为undefined */
+  private leaseTtl(leases: LockLease[]): number | undefined {
+    const ttls = leases
+      .flatMap((lease) => lease.members ?? [lease])
+      .map((lease) => lease.ttl)
+      .filter((leaseTtl): leaseTtl is number => leaseTtl !== undefined);
+    return ttls.length ? Math.min(...ttls) : undefined;
+  }
+
+  private acquireFailure(key: string, timeout: number, details: LockFailureDetails): LockAcquireResult {
+    const error = details.reason === 'held'
+      ? new LockAlreadyHeldException(key, details)
+      : details.reason === 'timeout'
+        ? new LockAcquireTimeoutException(key, timeout, details)
+        : new LockAcquireFailedException(key, details);
+
+    return { acquired: false, reason: error.reason, error };
+  }
+
+  /**
+   * 按模块配置的 errorFactory 转换获取锁失败的异常，未配置时原样返回
+   * @param host 拦截器中为当前请求的上下文，服务方法中为空
+   */
+  createAcquireError(error: DistributedLockException, host?: ArgumentsHost): Error {
+    return this.options.errorFactory?.(error, host) ?? error;
+  }
+
+  private async releaseLease(lease: LockLease): Promise<void> {
+    this.logger.debug(`releasing lock with lease: ${lease.lockId} original key: ${lease.key}`);
 
     try {
-      const result = await this.dataSource.query(
-        'SELECT objid FROM pg_locks WHERE locktype = $1 AND objid = $2 AND granted = true',
-        ['advisory', lockKey],
-      );
+      await this.backend.release(lease.key, lease);
+      this.logger.debug(`release lock success: ${lease.key}`);
+    } catch (error) {
+      this.logger.error(`Failed to release lock ${lease.key}:`, error);
+    }
+  }
 
-      return result.length > 0;
+  async isLocked(key: string, options: Pick<LockAcquireOptions, 'namespace'> = {}): Promise<boolean> {
+    try {
+      return await this.backend.isHeld(this.resolveKey(key, options.namespace));
     } catch (error) {
       this.logger.error(`Failed to check lock status for ${key}:`, error);
       return false;
@@ -232,17 +622,22 @@ export class DistributedLockService {
 
   async withLock<T>(
     key: string,
-    fn: () => Promise<T>,
+    fn: (context: LockContext) => Promise<T>,
     options: LockAcquireOptions = {},
   ): Promise<T> {
+    const reentered = this.findContextLock(key, options);
+    if (reentered) {
+      return this.reenter(key, [reentered], fn);
+    }
+
     const result = await this.acquire(key, options);
 
     if (!result.acquired) {
-      throw result.error || new Error(`Failed to acquire lock: ${key}`);
+      throw this.createAcquireError(result.error);
     }
 
     try {
-      return await fn();
+      return await this.runLocked(key, result.lock, options, fn);
     } finally {
       await result.lock.release().catch((e) => {
         this.logger.error(`释放锁失败 ${key}`, e);
@@ -250,33 +645,235 @@ export class DistributedLockService {
     }
   }
 
-  private generateLockKey(key: string): number {
-    // 使用更强的哈希算法确保唯一性
-    // PostgreSQL advisory lock接受64位有符号整数
-    const hash = this.fnv1a32(key);
+  /**
+   * 同时持有多把锁执行，例如同时锁定转出和转入账户
+   * 回调的 LockContext.key 为以逗号连接的键
+   * reentrant 模式下当前上下文已持有的键直接重入，只获取其余的键
+   */
+  async withLocks<T>(
+    keys: string[],
+    fn: (context: LockContext) => Promise<T>,
+    options: LockAcquireOptions = {},
+  ): Promise<T> {
+    const label = keys.join(',');
+    const held = keys.map((key) => this.findContextLock(key, options));
+    const reentered = [...new Set(held.filter((entry): entry is ContextLock => !!entry))];
+    const remaining = keys.filter((_, index) => !held[index]);
+
+    if (!remaining.length) {
+      return this.reenter(label, reentered, fn);
+    }
+
+    const run = async () => {
+      const result = await this.acquireMany(remaining, options);
+
+      if (!result.acquired) {
+        throw this.createAcquireError(result.error);
+      }
+
+      try {
+        const heldLocks = reentered.map((entry) => entry.lock);
+        return await this.runLocked(label, result.lock, options, fn, remaining, heldLocks);
+      } finally {
+        await result.lock.release().catch((e) => {
+          this.logger.error(`释放锁失败 ${result.lock.key}`, e);
+        });
+      }
+    };
+
+    return reentered.length ? this.reenter(label, reentered, run) : run();
+  }
+
+  /**
+   * 持有共享锁（读锁）执行，多个读者可以并发执行
+   */
+  async withReadLock<T>(
+    key: string,
+    fn: (context: LockContext) => Promise<T>,
+    options: Omit<LockAcquireOptions, 'mode'> = {},
+  ): Promise<T> {
+    return this.withLock(key, fn, { ...options, mode: 'shared' });
+  }
 
-    // 确保是正数并且在合理范围内
-    return Math.abs(hash) % 2147483647; // PostgreSQL最大正整数
+  /**
+   * 持有排他锁（写锁）执行，与所有读者和写者互斥
+   */
+  async withWriteLock<T>(
+    key: string,
+    fn: (context: LockContext) => Promise<T>,
+    options: Omit<LockAcquireOptions, 'mode'> = {},
+  ): Promise<T> {
+    return this.withLock(key, fn, { ...options, mode: 'exclusive' });
   }
 
   /**
-   * FNV-1a 32位哈希算法
-   * 具有良好的分布性和较低的冲突率
+   * 查找当前异步上下文中已持有的同名锁（仅 reentrant 模式）
+   * 持有共享锁时不能重入为排他锁，否则会与自己死锁
    */
-  private fnv1a32(str: string): number {
-    let hash = 0x811c9dc5; // FNV偏移基础值
+  private findContextLock(key: string, options: LockAcquireOptions): ContextLock | undefined {
+    if (!(options.reentrant ?? this.options.reentrant)) {
+      return undefined;
+    }
 
-    for (let i = 0; i < str.length; i++) {
-      hash ^= str.charCodeAt(i);
-      hash = Math.imul(hash, 0x01000193); // FNV质数
+    const resourceKey = this.resolveKey(key, options.namespace);
+    const held = this.contextLocks.getStore()?.get(resourceKey);
+    if (!held || held.lock.status !== 'held') {
+      return undefined;
     }
 
-    // 确保结果在32位范围内
-    return hash >>> 0;
+    if (held.mode === 'shared' && (options.mode ?? 'exclusive') === 'exclusive') {
+      throw new LockReentryException(key);
+    }
+    return held;
+  }
+
+  private async reenter<T>(key: string, held: ContextLock[], fn: (context: LockContext) => Promise<T>): Promise<T> {
+    held.forEach((entry) => entry.holds++);
+    this.logger.debug(`re-entering lock: ${key} holds: ${held.map((entry) => entry.holds).join(',')}`);
+
+    try {
+      return await fn(this.createContext(key, ...held.map((entry) => entry.lock)));
+    } finally {
+      held.forEach((entry) => this.leave(entry));
+    }
   }
 
+  /**
+   * 在记录了该锁的异步上下文中执行回调，使回调内的 withLock 可以重入
+   * 回调结束后等待仍在运行的重入持有者（如未等待的嵌套调用），再交由调用方释放锁
+   */
+  private runLocked<T>(
+    key: string,
+    lock: LockHandle,
+    options: LockAcquireOptions,
+    fn: (context: LockContext) => Promise<T>,
+    keys: string[] = [key],
+    heldLocks: LockHandle[] = [],
+  ): Promise<T> {
+    const entry: ContextLock = { lock, mode: options.mode ?? 'exclusive', holds: 1 };
+    const locks = new Map(this.contextLocks.getStore());
+    for (const lockKey of keys) {
+      locks.set(this.resolveKey(lockKey, options.namespace), entry);
+    }
+
+    return this.trackRunning(this.contextLocks.run(locks, async () => {
+      try {
+        return await fn(this.createContext(key, lock, ...heldLocks));
+      } finally {
+        await new Promise<void>((resolve) => {
+          entry.onIdle = resolve;
+          this.leave(entry);
+        });
+      }
+    }));
+  }
+
+  /** 持有者结束，最后一个持有者结束时通知最外层释放锁 */
+  private leave(entry: ContextLock): void {
+    entry.holds--;
+    if (entry.holds === 0) {
+      entry.onIdle?.();
+    }
+  }
+
+  private createContext(key: string, ...locks: LockHandle[]): LockContext {
+    return {
+      key,
+      signal: locks.length === 1 ? locks[0].signal : this.anySignal(locks.map((lock) => lock.signal)),
+      isHeld: () => locks.every((lock) => lock.status === 'held'),
+    };
+  }
+
+  /** 任意一把锁丢失时abort */
+  private anySignal(signals: AbortSignal[]): AbortSignal {
+    const controller = new AbortController();
+    const abort = (signal: AbortSignal) => {
+      controller.abort(signal.reason);
+      signals.forEach((other) => other.removeEventListener('abort', onAbort));
+    };
+    const onAbort = (event: Event) => abort(event.target as AbortSignal);
+
+    const aborted = signals.find((signal) => signal.aborted);
+    if (aborted) {
+      abort(aborted);
+    } else {
+      signals.forEach((signal) => signal.addEventListener('abort', onAbort));
+    }
+    return controller.signal;
+  }
+
+  /**
+   * 查找事务作用域锁所在事务的QueryRunner
+   * 优先使用显式传入的事务，其次是模块配置的 transactionResolver，最后由后端从事务上下文中查找
+   */
+  private resolveTransaction(key: string, transaction?: any): any {
+    const candidate = transaction
+      ?? this.options.transactionResolver?.()
+      ?? this.backend.currentTransaction?.();
+    // EntityManager 通过 queryRunner 属性关联事务，QueryRunner 则直接使用
+    const queryRunner = candidate?.queryRunner ?? candidate;
+
+    if (!queryRunner?.isTransactionActive) {
+      throw new Error(`Transaction-scoped lock ${key} requires an active transaction`);
+    }
+    return queryRunner;
+  }
+
+  /**
+   * 将命名空间拼接到锁键前，不同命名空间的锁互不影响
+   * 带命名空间的键为 '@namespace:key'；没有命名空间的键以 '@' 开头时再加一个 '@'，
+   * 因此没有命名空间的 'billing:1' 与命名空间 billing 中的 '1' 不会得到同一把锁
+   */
+  private resolveKey(key: string, namespace: string = this.namespace): string {
+    if (namespace) {
+      return `${NAMESPACED_KEY_PREFIX}${this.validateNamespace(namespace)}:${key}`;
+    }
+    return key.startsWith(NAMESPACED_KEY_PREFIX) ? `${NAMESPACED_KEY_PREFIX}${key}` : key;
+  }
+
+  private validateNamespace(namespace?: string): string | undefined {
+    // 命名空间中出现分隔符会让 'a' + 'b:c' 与 'a:b' + 'c' 得到相同的锁
+    if (namespace?.includes(':')) {
+      throw new Error(`Invalid lock namespace "${namespace}": namespace must not contain ':'`);
+    }
+    // '@@' 开头的键留给以 '@' 开头、没有命名空间的键
+    if (namespace?.startsWith(NAMESPACED_KEY_PREFIX)) {
+      throw new Error(`Invalid lock namespace "${namespace}": namespace must not start with '${NAMESPACED_KEY_PREFIX}'`);
+    }
+    return namespace;
+  }
+
+  /** 等待一段时间，服务关闭时提前结束 */
   private sleep(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms));
+    const { signal } = this.shutdownController;
+
+    return new Promise((resolve) => {
+      const done = () => {
+        clearTimeout(timer);
+        signal.removeEventListener('abort', done);
+        resolve();
+      };
+      const timer = setTimeout(done, ms);
+      signal.addEventListener('abort', done);
+    });
+  }
+
+  /**
+   * 最多等待 ms 毫秒
+   * @returns promise 是否在时限内完成
+   */
+  private async waitAtMost(promise: Promise<unknown>, ms: number): Promise<boolean> {
+    let timer: NodeJS.Timeout;
+    try {
+      return await Promise.race([
+        promise.then(() => true),
+        new Promise<boolean>((resolve) => {
+          timer = setTimeout(() => resolve(false), ms);
+        }),
+      ]);
+    } finally {
+      clearTimeout(timer);
+    }
   }
 
   /**
@@ -284,9 +881,14 @@ export class DistributedLockService {
    */
   async withLockResult<T>(
     key: string,
-    fn: () => Promise<T>,
+    fn: (context: LockContext) => Promise<T>,
     options: LockAcquireOptions = {},
   ): Promise<{ success: boolean; result?: T; error?: Error }> {
+    const reentered = this.findContextLock(key, options);
+    if (reentered) {
+      return { success: true, result: await this.reenter(key, [reentered], fn) };
+    }
+
     const acquireResult = await this.acquire(key, options);
 
     if (!acquireResult.acquired) {
@@ -297,7 +899,7 @@ export class DistributedLockService {
     }
 
     try {
-      const result = await fn();
+      const result = await this.runLocked(key, acquireResult.lock, options, fn);
       return {
         success: true,
         result,
@@ -309,6 +911,72 @@ export class DistributedLockService {
     }
   }
 
+  /**
+   * 以单例任务方式执行：同一时间只有一个实例执行，其他实例跳过而不是排队
+   * 配置 minIntervalMs 时，距上次成功运行不足该间隔同样跳过
+   */
+  async runSingletonJob<T>(
+    key: string,
+    fn: (context: LockContext) => Promise<T>,
+    options: SingletonJobOptions = {},
+  ): Promise<SingletonJobResult<T>> {
+    const { key: _key, skipIfLocked = true, minIntervalMs, ...acquireOptions } = options;
+    if (minIntervalMs && !(this.backend.getLastRun && this.backend.setLastRun)) {
+      throw new Error(`Job run timestamps are not supported by the ${this.backend.name} backend`);
+    }
+
+    const result = await this.acquire(key, {
+      ...acquireOptions,
+      wait: !skipIfLocked,
+      maxRetries: skipIfLocked ? 0 : acquireOptions.maxRetries,
+    });
+
+    if (!result.acquired) {
+      // 后端出错时 error.cause 为原始错误，不能当作其他实例正在执行
+      if (result.reason === 'unknown' || result.error?.cause) {
+        this.logger.error(`singleton job ${key} failed to acquire lock`, result.error);
+        throw this.createAcquireError(result.error);
+      }
+
+      this.logger.log(`skip singleton job ${key}: running on another instance`);
+      return { ran: false, skipped: 'locked' };
+    }
+
+    const { lock } = result;
+    const resourceKey = this.resolveKey(key, options.namespace);
+    try {
+      if (minIntervalMs) {
+        const lastRun = await this.backend.getLastRun(resourceKey);
+        if (lastRun !== null && Date.now() - lastRun < minIntervalMs) {
+          this.logger.log(`skip singleton job ${key}: last run ${Date.now() - lastRun}ms ago`);
+          return { ran: false, skipped: 'interval' };
+        }
+      }
+
+      const startedAt = Date.now();
+      this.logger.log(`running singleton job ${key}`);
+      try {
+        const value = await this.runLocked(key, lock, acquireOptions, fn);
+        this.logger.log(`singleton job ${key} finished in ${Date.now() - startedAt}ms`);
+
+        // 只记录成功的运行（按开始时间），失败后下次调度会重新执行
+        if (minIntervalMs) {
+          await this.backend.setLastRun(resourceKey, startedAt).catch((e) => {
+            this.logger.error(`记录任务运行时间失败 ${key}`, e);
+          });
+        }
+        return { ran: true, result: value };
+      } catch (error) {
+        this.logger.error(`singleton job ${key} failed after ${Date.now() - startedAt}ms`, error);
+        throw error;
+      }
+    } finally {
+      await lock.release().catch((e) => {
+        this.logger.error(`释放锁失败 ${key}`, e);
+      });
+    }
+  }
+
   /**
    * 向后兼容的锁获取方法（保持原有异常行为）
    * @deprecated 使用 acquireLockResult 方法替代
@@ -317,7 +985,7 @@ export class DistributedLockService {
     const result = await this.acquire(key, options);
 
     if (!result.acquired) {
-      throw result.error || new Error(`Failed to acquire lock: ${key}`);
+      throw this.createAcquireError(result.error);
     }
 
     return result.lock!;
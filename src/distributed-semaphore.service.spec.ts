@@ -0,0 +1,154 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { DistributedLockModule } from './distributed-lock.module';
+import { DistributedSemaphoreService } from './distributed-semaphore.service';
+import { DistributedLockService, LockContext } from './distributed-lock.service';
+import { LockAcquireFailedException, LockAcquireTimeoutException, LockAlreadyHeldException } from './exceptions';
+
+describe('DistributedSemaphoreService', () => {
+  let module: TestingModule;
+  let semaphore: DistributedSemaphoreService;
+  let lockService: DistributedLockService;
+
+  beforeEach(async () => {
+    module = await Test.createTestingModule({
+      imports: [DistributedLockModule.forRoot({ backend: 'memory' })],
+    }).compile();
+
+    semaphore = module.get<DistributedSemaphoreService>(DistributedSemaphoreService);
+    lockService = module.get<DistributedLockService>(DistributedLockService);
+  });
+
+  afterEach(async () => {
+    await module.close();
+  });
+
+  it('should allow at most N concurrent holders', async () => {
+    let active = 0;
+    let maxActive = 0;
+
+    const call = () => semaphore.withPermit('partner-api', 2, async () => {
+      active++;
+      maxActive = Math.max(maxActive, active);
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      active--;
+    }, { retryDelay: 5 });
+
+    await Promise.all([call(), call(), call(), call(), call()]);
+
+    expect(maxActive).toBe(2);
+    expect(lockService.getHeldLocks()).toEqual([]);
+  });
+
+  it('should report the permit as no longer held after withPermit returns', async () => {
+    let context: LockContext;
+    await semaphore.withPermit('partner-api', 2, async (current) => {
+      context = current;
+      expect(current.isHeld()).toBe(true);
+    });
+
+    expect(context.isHeld()).toBe(false);
+  });
+
+  it('should hold one of the permit slots', async () => {
+    const result = await semaphore.acquire('partner-api', 3);
+
+    expect(result.lock.key).toMatch(/^partner-api#[0-2]$/);
+    expect(await lockService.isLocked(result.lock.key)).toBe(true);
+
+    await result.lock.release();
+  });
+
+  it('should report held when all permits are taken and wait is false', async () => {
+    const first = await semaphore.acquire('partner-api', 1);
+
+    const second = await semaphore.acquire('partner-api', 1, { wait: false });
+    expect(second.acquired).toBe(false);
+    expect(second.reason).toBe('held');
+
+    await first.lock.release();
+  });
+
+  it('should time out when no permit frees up', async () => {
+    const first = await semaphore.acquire('partner-api', 1);
+
+    const start = Date.now();
+    const second = await semaphore.acquire('partner-api', 1, { timeout: 50, retryDelay: 10 });
+
+    expect(second.reason).toBe('timeout');
+    expect(Date.now() - start).toBeLessThan(500);
+
+    await first.lock.release();
+  });
+
+  it('should poll held permits with the retry strategy', async () => {
+    const first = await semaphore.acquire('partner-api', 1);
+    const retryStrategy = jest.fn(() => 5);
+
+    const second = await semaphore.acquire('partner-api', 1, { timeout: 50, retryStrategy });
+
+    expect(second.reason).toBe('timeout');
+    expect(retryStrategy).toHaveBeenCalledWith(1, expect.any(LockAlreadyHeldException));
+    expect(retryStrategy.mock.calls.length).toBeGreaterThan(2);
+
+    await first.lock.release();
+  });
+
+  it('should stop waiting when the retry strategy returns null', async () => {
+    const first = await semaphore.acquire('partner-api', 1);
+
+    const start = Date.now();
+    const second = await semaphore.acquire('partner-api', 1, { timeout: 30000, retryStrategy: () => null });
+
+    expect(second.reason).toBe('timeout');
+    expect(Date.now() - start).toBeLessThan(500);
+
+    await first.lock.release();
+  });
+
+  it('should give up after maxRetries rounds of transient errors', async () => {
+    const connectionError = Object.assign(new Error('Connection reset'), { code: 'ECONNRESET' });
+    const acquire = jest.spyOn(lockService, 'acquire').mockResolvedValue({
+      acquired: false,
+      reason: 'timeout',
+      error: new LockAcquireTimeoutException('partner-api#0', 1000, { cause: connectionError }),
+    });
+
+    const result = await semaphore.acquire('partner-api', 1, { timeout: 30000, maxRetries: 1, retryDelay: 5 });
+
+    expect(result.reason).toBe('timeout');
+    expect(result.error.cause).toBe(connectionError);
+    expect(acquire).toHaveBeenCalledTimes(2);
+  });
+
+  it('should return non-retryable failures without polling', async () => {
+    const failure = {
+      acquired: false as const,
+      reason: 'unknown' as const,
+      error: new LockAcquireFailedException('partner-api#0', { cause: new Error('permission denied') }),
+    };
+    const acquire = jest.spyOn(lockService, 'acquire').mockResolvedValue(failure);
+
+    const result = await semaphore.acquire('partner-api', 3, { timeout: 30000 });
+
+    expect(result).toBe(failure);
+    expect(acquire).toHaveBeenCalledTimes(1);
+  });
+
+  it('should stop waiting for a permit when the lock service shuts down', async () => {
+    const first = await semaphore.acquire('partner-api', 1);
+    const second = semaphore.acquire('partner-api', 1, { timeout: 30000, retryDelay: 10 });
+
+    const start = Date.now();
+    await lockService.beforeApplicationShutdown();
+    const result = await second;
+
+    expect(result.reason).toBe('unknown');
+    expect(result.error).toBeInstanceOf(LockAcquireFailedException);
+    expect(Date.now() - start).toBeLessThan(500);
+    expect(first.lock.status).toBe('lost');
+  });
+
+  it('should reject an invalid number of permits', async () => {
+    await expect(semaphore.acquire('partner-api', 0)).rejects.toThrow('positive integer');
+  });
+});
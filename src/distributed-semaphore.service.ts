@@ -0,0 +1,175 @@
+import { ArgumentsHost, Inject, Injectable, Logger } from '@nestjs/common';
+
+import { DistributedLockOptions, LockAcquireOptions } from './interfaces';
+import { DistributedLockException, LockAcquireTimeoutException, LockAlreadyHeldException } from './exceptions';
+import { DistributedLockService, LockAcquireResult, LockContext } from './distributed-lock.service';
+import { createRetryDelay } from './distributed-lock.retry';
+import {
+  DISTRIBUTED_LOCK_MODULE_OPTIONS,
+  DEFAULT_MAX_RETRIES,
+  DEFAULT_SEMAPHORE_POLL_INTERVAL,
+  DEFAULT_TIMEOUT,
+} from './distributed-lock.constants';
+
+/**
+ * 信号量许可的获取选项，mode 固定为排他
+ * 各槽位只做非阻塞尝试，没有可排队的后端等待，因此不支持公平模式
+ */
+export type PermitAcquireOptions = Omit<LockAcquireOptions, 'mode' | 'reentrant' | 'fair'>;
+
+/**
+ * 分布式信号量
+ * 同一个键最多允许 permits 个持有者，每个许可对应一把锁 `key#0` ~ `key#N-1`
+ */
+@Injectable()
+export class DistributedSemaphoreService {
+  private readonly logger = new Logger(DistributedSemaphoreService.name);
+
+  constructor(
+    private readonly lockService: DistributedLockService,
+    @Inject(DISTRIBUTED_LOCK_MODULE_OPTIONS)
+    private readonly options: DistributedLockOptions,
+  ) { }
+
+  /**
+   * 获取一个许可
+   * 依次尝试各个许可槽位，全部被占用时按 retryStrategy（默认每隔 retryDelay，100毫秒）重新尝试，直到 timeout
+   * 连接断开等暂时性错误最多重试 maxRetries 轮；权限不足等不可重试的错误和应用关闭时立即返回
+   * 成功时 lock.key 为所占用的槽位
+   */
+  async acquire(key: string, permits: number, options: PermitAcquireOptions = {}): Promise<LockAcquireResult> {
+    if (!Number.isInteger(permits) || permits < 1) {
+      throw new Error(`Semaphore ${key} requires a positive integer number of permits, got ${permits}`);
+    }
+
+    const {
+      timeout = this.options.defaultTimeout ?? DEFAULT_TIMEOUT,
+      wait = true,
+      maxRetries = this.options.maxRetries ?? DEFAULT_MAX_RETRIES,
+      retryDelay = DEFAULT_SEMAPHORE_POLL_INTERVAL,
+      retryStrategy = this.options.retryStrategy,
+    } = options;
+
+    const startedAt = Date.now();
+    const deadline = startedAt + timeout;
+    // 从随机槽位开始，避免所有调用方都争抢 key#0
+    const offset = Math.floor(Math.random() * permits);
+    const nextDelay = createRetryDelay(retryStrategy, retryDelay);
+    let attempts = 0;
+    let rounds = 0;
+    let failedRounds = 0;
+    let lastError: Error | undefined;
+
+    for (;;) {
+      let roundError: Error | undefined;
+      for (let i = 0; i < permits; i++) {
+        const slot = `${key}#${(offset + i) % permits}`;
+        // 单个槽位只尝试一次，出错时由外层循环在下一轮重试
+        attempts++;
+        const result = await this.lockService.acquire(slot, {
+          ...options,
+          mode: 'exclusive',
+          wait: false,
+          fair: false,
+          timeout,
+          maxRetries: 0,
+        });
+
+        if (result.acquired) {
+          this.logger.debug(`acquire permit success: ${slot}`);
+          return result;
+        }
+        // 应用关闭、权限不足等重试也不会成功，直接返回锁服务的失败结果
+        if (result.reason === 'unknown') {
+          return result;
+        }
+        if (result.reason !== 'held') {
+          roundError = result.error?.cause instanceof Error ? result.error.cause : result.error;
+          lastError = roundError;
+        }
+      }
+
+      if (!wait) {
+        return {
+          acquired: false,
+          reason: 'held',
+          error: new LockAlreadyHeldException(key, {
+            attempts,
+            elapsed: Date.now() - startedAt,
+            cause: lastError,
+          }),
+        };
+      }
+
+      if (roundError && ++failedRounds > maxRetries) {
+        this.logger.debug(`acquire permit failed: ${key} after ${maxRetries} retries`, roundError);
+        break;
+      }
+
+      const remaining = deadline - Date.now();
+      if (remaining <= 0) {
+        break;
+      }
+      // 槽位全部被占用时也按重试策略计算间隔，返回null时停止等待
+      const delay = nextDelay(++rounds, roundError ?? new LockAlreadyHeldException(key, { attempts }));
+      if (delay === null) {
+        break;
+      }
+      await this.sleep(Math.min(Math.max(0, delay), remaining));
+    }
+
+    this.logger.debug(`acquire permit timeout: ${key} after ${timeout}ms`);
+    return {
+      acquired: false,
+      reason: 'timeout',
+      error: new LockAcquireTimeoutException(key, timeout, {
+        attempts,
+        elapsed: Date.now() - startedAt,
+        cause: lastError,
+      }),
+    };
+  }
+
+  /**
+   * 持有一个许可执行，执行完毕后自动归还
+   */
+  async withPermit<T>(
+    key: string,
+    permits: number,
+    fn: (context: LockContext) => Promise<T>,
+    options: PermitAcquireOptions = {},
+  ): Promise<T> {
+    const result = await this.acquire(key, permits, options);
+
+    if (!result.acquired) {
+      throw this.createAcquireError(result.error);
+    }
+
+    const { lock } = result;
+    try {
+      return await this.trackRunning(fn({ key: lock.key, signal: lock.signal, isHeld: () => lock.status === 'held' }));
+    } finally {
+      await lock.release().catch((e) => {
+        this.logger.error(`归还许可失败 ${lock.key}`, e);
+      });
+    }
+  }
+
+  /**
+   * 按模块配置的 errorFactory 转换获取许可失败的异常
+   */
+  createAcquireError(error: DistributedLockException, host?: ArgumentsHost): Error {
+    return this.lockService.createAcquireError(error, host);
+  }
+
+  /**
+   * 登记持有许可期间进行中的工作，应用关闭时在 shutdownGracePeriod 内等待其完成
+   */
+  trackRunning<T>(running: Promise<T>): Promise<T> {
+    return this.lockService.trackRunning(running);
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+  }
+}
@@ -1,7 +1,9 @@
 import { 
+  LockAcquireFailedException,
   LockAcquireTimeoutException, 
   LockAlreadyHeldException, 
-  LockNotHeldException 
+  LockNotHeldException,
+  LockReentryException,
 } from './distributed-lock.exception';
 
 describe('Lock Exceptions', () => {
@@ -50,4 +52,29 @@ describe('Lock Exceptions', () => {
       expect(exception.errorCode).toBe('LOCK_NOT_HELD');
     });
   });
+
+  describe('LockAcquireFailedException', () => {
+    it('should keep the backend error and acquisition details', () => {
+      const cause = new Error('permission denied');
+      const exception = new LockAcquireFailedException('test-key', { attempts: 2, elapsed: 15, cause });
+
+      expect(exception.message).toBe('获取锁失败: test-key (permission denied)');
+      expect(exception.errorCode).toBe('LOCK_ACQUIRE_FAILED');
+      expect(exception.reason).toBe('unknown');
+      expect(exception.attempts).toBe(2);
+      expect(exception.elapsed).toBe(15);
+      expect(exception.cause).toBe(cause);
+    });
+  });
+
+  describe('LockReentryException', () => {
+    it('should create exception with key', () => {
+      const exception = new LockReentryException('test-key');
+
+      expect(exception).toBeInstanceOf(LockReentryException);
+      expect(exception.message).toBe('不能以排他模式重入共享锁: test-key');
+      expect(exception.key).toBe('test-key');
+      expect(exception.errorCode).toBe('LOCK_REENTRY_CONFLICT');
+    });
+  });
 });
\ No newline at end of file
@@ -1,28 +1,63 @@
 import { HttpException, HttpStatus } from '@nestjs/common';
 
+/** 获取锁失败的原因 */
+export type LockFailureReason = 'timeout' | 'held' | 'unknown';
+
+/** 获取锁失败时的诊断信息 */
+export interface LockFailureDetails {
+  reason?: LockFailureReason;
+  /** 向锁后端发起请求的次数 */
+  attempts?: number;
+  /** 从开始获取到失败经过的时间（毫秒） */
+  elapsed?: number;
+  /** 最近一次请求后端时的错误 */
+  cause?: Error;
+}
+
 export class DistributedLockException extends HttpException {
+  readonly reason?: LockFailureReason;
+  readonly attempts?: number;
+  readonly elapsed?: number;
+
   constructor(
     message: string,
     public readonly key?: string,
     public readonly errorCode?: string,
+    details: LockFailureDetails = {},
   ) {
-    super(message, HttpStatus.CONFLICT);
+    super(message, HttpStatus.CONFLICT, { cause: details.cause });
+    this.reason = details.reason;
+    this.attempts = details.attempts;
+    this.elapsed = details.elapsed;
   }
 }
 
 export class LockAcquireTimeoutException extends DistributedLockException {
-  constructor(key: string, timeout: number) {
+  constructor(key: string, timeout: number, details: LockFailureDetails = {}) {
     super(
       `获取锁超时: ${key} (${timeout}ms)`,
       key,
       'LOCK_ACQUIRE_TIMEOUT',
+      { reason: 'timeout', ...details },
     );
   }
 }
 
 export class LockAlreadyHeldException extends DistributedLockException {
-  constructor(key: string) {
-    super(`锁已被占用: ${key}`, key, 'LOCK_ALREADY_HELD');
+  constructor(key: string, details: LockFailureDetails = {}) {
+    super(`锁已被占用: ${key}`, key, 'LOCK_ALREADY_HELD', { reason: 'held', ...details });
+  }
+}
+
+/** 锁后端返回了无法重试的错误，原始错误保存在 cause 中 */
+export class LockAcquireFailedException extends DistributedLockException {
+  constructor(key: string, details: LockFailureDetails = {}) {
+    super(
+      `获取锁失败: ${key}${details.cause ? ` (${details.cause.message})` : ''}`,
+      key,
+      'LOCK_ACQUIRE_FAILED',
+      { reason: 'unknown', ...details },
+    );
   }
 }
 
@@ -30,4 +65,11 @@ export class LockNotHeldException extends DistributedLockException {
   constructor(key: string) {
     super(`未持有锁: ${key}`, key, 'LOCK_NOT_HELD');
   }
-}
\ No newline at end of file
+}
+
+/** 持有共享锁的上下文中以排他模式重入同一把锁 */
+export class LockReentryException extends DistributedLockException {
+  constructor(key: string) {
+    super(`不能以排他模式重入共享锁: ${key}`, key, 'LOCK_REENTRY_CONFLICT');
+  }
+}
@@ -1,6 +1,9 @@
 export * from './distributed-lock.module';
 export * from './distributed-lock.service';
+export * from './distributed-semaphore.service';
+export * from './leader-election.service';
 export * from './distributed-lock.constants';
 export * from './interfaces';
 export * from './decorators';
-export * from './exceptions'
\ No newline at end of file
+export * from './exceptions';
+export * from './backends';
\ No newline at end of file
@@ -1,9 +1,30 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { Reflector } from '@nestjs/core';
+import { ExecutionContextHost } from '@nestjs/core/helpers/execution-context-host';
+import { lastValueFrom, of, timer } from 'rxjs';
+import { map } from 'rxjs/operators';
 import { DataSource } from 'typeorm';
 import { DistributedLockInterceptor } from './distributed-lock.interceptor';
 import { DistributedLockService } from '../distributed-lock.service';
 import { DistributedLockModule } from '../distributed-lock.module';
+import { Lock } from '../decorators/lock.decorator';
+
+class OrderController {
+  @Lock('order:{params.id}')
+  update() { }
+
+  @Lock(({ body, user }) => ({ key: [`account:${body.from}`, `account:${body.to}`], timeout: 1000, namespace: user.tenant }))
+  transfer() { }
+
+  @Lock('order:{params.orderId}')
+  handleMessage() { }
+}
+
+function createContext(handler: keyof OrderController, args: any[], type = 'http') {
+  const context = new ExecutionContextHost(args, OrderController, OrderController.prototype[handler]);
+  context.setType(type);
+  return context;
+}
 
 describe('DistributedLockInterceptor', () => {
   let interceptor: DistributedLockInterceptor;
@@ -70,4 +91,69 @@ describe('DistributedLockInterceptor', () => {
     expect(testInterceptor).toBeDefined();
     await testModule.close();
   });
-});
\ No newline at end of file
+
+  describe('dynamic lock keys', () => {
+    const next = { handle: () => of('ok') };
+
+    it('should resolve key templates from HTTP route params', async () => {
+      const acquire = jest.spyOn(lockService, 'acquire');
+
+      await interceptor.intercept(createContext('update', [{ params: { id: '42' } }, {}, jest.fn()]), next);
+
+      expect(acquire).toHaveBeenCalledWith('order:42', expect.objectContaining({ key: 'order:{params.id}' }));
+    });
+
+    it('should pass body and user to dynamic key functions', async () => {
+      const acquireMany = jest.spyOn(lockService, 'acquireMany');
+      const request = { params: {}, body: { from: 'a', to: 'b' }, user: { tenant: 'acme' } };
+
+      await interceptor.intercept(createContext('transfer', [request, {}, jest.fn()]), next);
+
+      expect(acquireMany).toHaveBeenCalledWith(
+        ['account:a', 'account:b'],
+        expect.objectContaining({ timeout: 1000, namespace: 'acme' }),
+      );
+    });
+
+    it('should resolve templates from RPC payloads and GraphQL arguments', async () => {
+      const acquire = jest.spyOn(lockService, 'acquire');
+
+      await interceptor.intercept(createContext('handleMessage', [{ orderId: 7 }, {}], 'rpc'), next);
+      await interceptor.intercept(createContext('handleMessage', [{}, { orderId: 8 }, {}, {}], 'graphql'), next);
+
+      expect(acquire).toHaveBeenNthCalledWith(1, 'order:7', expect.anything());
+      expect(acquire).toHaveBeenNthCalledWith(2, 'order:8', expect.anything());
+    });
+
+    it('should refuse templates that reference missing values', async () => {
+      const acquire = jest.spyOn(lockService, 'acquire');
+
+      await expect(interceptor.intercept(createContext('update', [{ params: {} }, {}, jest.fn()]), next))
+        .rejects.toThrow('references missing value {params.id}');
+      expect(acquire).not.toHaveBeenCalled();
+    });
+  });
+
+  it('should let in-flight handlers finish within the shutdown grace period', async () => {
+    const shutdownModule = await Test.createTestingModule({
+      imports: [DistributedLockModule.forRoot({ backend: 'memory', shutdownGracePeriod: 500 })],
+    }).compile();
+    const shutdownService = shutdownModule.get(DistributedLockService);
+    let heldDuringHandler: boolean;
+
+    const next = {
+      handle: () => timer(30).pipe(map(() => {
+        heldDuringHandler = shutdownService.getHeldLocks().length === 1;
+        return 'ok';
+      })),
+    };
+    const result = lastValueFrom(await shutdownModule.get(DistributedLockInterceptor)
+      .intercept(createContext('update', [{ params: { id: '42' } }, {}, jest.fn()]), next));
+
+    await shutdownModule.close();
+
+    expect(await result).toBe('ok');
+    expect(heldDuringHandler).toBe(true);
+    expect(await shutdownService.isLocked('order:42')).toBe(false);
+  });
+});
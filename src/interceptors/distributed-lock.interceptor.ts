@@ -11,12 +11,8 @@ import { Reflector } from '@nestjs/core';
 import { Observable } from 'rxjs';
 import { finalize } from 'rxjs/operators';
 import { DistributedLockService } from '../distributed-lock.service';
-import { LOCK_METADATA_KEY, LockDecoratorOptions } from '../decorators/lock.decorator';
-
-interface ExtendedLockOptions extends LockDecoratorOptions {
-  isDynamic?: boolean;
-  dynamicFn?: (...args: any[]) => LockDecoratorOptions;
-}
+import { LOCK_METADATA_KEY } from '../decorators/lock.decorator';
+import { createLockKeyContext, ExtendedLockOptions, resolveLockOptions } from './lock-key.utils';
 
 @Injectable()
 export class DistributedLockInterceptor implements NestInterceptor {
@@ -35,16 +31,29 @@ export class DistributedLockInterceptor implements NestInterceptor {
       return next.handle();
     }
 
-    const finalOptions = this.resolveDynamicOptions(context, lockOptions);
-    const lockKey = this.generateLockKey(context, finalOptions);
+    // 基于类名和方法名生成默认锁键
+    const defaultKey = `${context.getClass().name}.${context.getHandler().name}`;
+    const { key: lockKey, options: finalOptions } = resolveLockOptions(
+      lockOptions,
+      createLockKeyContext(context),
+      defaultKey,
+    );
 
     try {
-      const { acquired, lock, error } = await this.lockService.acquire(lockKey, finalOptions);
+      const { acquired, lock, error } = Array.isArray(lockKey)
+        ? await this.lockService.acquireMany(lockKey, finalOptions)
+        : await this.lockService.acquire(lockKey, finalOptions);
 
       if (!acquired) {
-        throw error || new Error(`Failed to acquire lock: ${lockKey}`);
+        throw this.lockService.createAcquireError(error, context);
       }
 
+      // 登记请求处理，应用关闭时在宽限期内等待其完成后再释放
+      let settle: () => void;
+      this.lockService.trackRunning(new Promise<void>((resolve) => {
+        settle = resolve;
+      }));
+
       return next.handle().pipe(
         finalize(async () => {
           try {
@@ -52,6 +61,8 @@ export class DistributedLockInterceptor implements NestInterceptor {
             this.logger.log(`Released lock for ${lockKey}`);
           } catch (err) {
             this.logger.error(`Failed to release lock for ${lockKey}`, err);
+          } finally {
+            settle();
           }
         })
       );
@@ -71,33 +82,4 @@ export class DistributedLockInterceptor implements NestInterceptor {
       context.getHandler(),
     );
   }
-
-  private resolveDynamicOptions(context: ExecutionContext, options: ExtendedLockOptions): LockDecoratorOptions {
-    if (options.isDynamic && options.dynamicFn) {
-      const args = this.getMethodArguments(context);
-      return options.dynamicFn(...args);
-    }
-    return options;
-  }
-
-  private getMethodArguments(context: ExecutionContext): any[] {
-    const args = context.getArgs();
-    if (args.length > 0) {
-      return args;
-    }
-    return [];
-  }
-
-  private generateLockKey(context: ExecutionContext, options: LockDecoratorOptions): string {
-    if (options.key) {
-      return options.key;
-    }
-
-    const handler = context.getHandler();
-    const className = context.getClass().name;
-    const methodName = handler.name;
-
-    // 基于类名和方法名生成默认锁键
-    return `${className}.${methodName}`;
-  }
 }
\ No newline at end of file
@@ -0,0 +1,70 @@
+import {
+  Injectable,
+  NestInterceptor,
+  ExecutionContext,
+  CallHandler,
+  Inject,
+  Optional,
+  Logger
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { Observable } from 'rxjs';
+import { finalize } from 'rxjs/operators';
+import { DistributedSemaphoreService } from '../distributed-semaphore.service';
+import { SEMAPHORE_METADATA_KEY, SemaphoreDecoratorOptions } from '../decorators/semaphore.decorator';
+import { createLockKeyContext, interpolateLockKey } from './lock-key.utils';
+
+@Injectable()
+export class DistributedSemaphoreInterceptor implements NestInterceptor {
+  private readonly logger = new Logger(DistributedSemaphoreInterceptor.name);
+
+  constructor(
+    @Inject(DistributedSemaphoreService)
+    private readonly semaphoreService: DistributedSemaphoreService,
+    @Optional() private readonly reflector?: Reflector,
+  ) { }
+
+  async intercept(context: ExecutionContext, next: CallHandler): Promise<Observable<any>> {
+    const options = this.reflector?.get<SemaphoreDecoratorOptions>(
+      SEMAPHORE_METADATA_KEY,
+      context.getHandler(),
+    );
+
+    if (!options) {
+      return next.handle();
+    }
+
+    const { key: template, permits, ...acquireOptions } = options;
+    const key = interpolateLockKey(template, createLockKeyContext(context));
+
+    try {
+      const { acquired, lock, error } = await this.semaphoreService.acquire(key, permits, acquireOptions);
+
+      if (!acquired) {
+        throw this.semaphoreService.createAcquireError(error, context);
+      }
+
+      // 登记请求处理，应用关闭时在宽限期内等待其完成后再释放
+      let settle: () => void;
+      this.semaphoreService.trackRunning(new Promise<void>((resolve) => {
+        settle = resolve;
+      }));
+
+      return next.handle().pipe(
+        finalize(async () => {
+          try {
+            await lock!.release();
+            this.logger.log(`Released permit ${lock!.key}`);
+          } catch (err) {
+            this.logger.error(`Failed to release permit ${lock!.key}`, err);
+          } finally {
+            settle();
+          }
+        })
+      );
+    } catch (error) {
+      this.logger.error(`获取许可失败: ${key}`, error);
+      throw error;
+    }
+  }
+}
@@ -1 +1,2 @@
-export * from './distributed-lock.interceptor';
\ No newline at end of file
+export * from './distributed-lock.interceptor';
+export * from './distributed-semaphore.interceptor';
\ No newline at end of file
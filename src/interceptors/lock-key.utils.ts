@@ -0,0 +1,109 @@
+import { ExecutionContext } from '@nestjs/common';
+
+import { LockKeyContext } from '../interfaces';
+import type { LockDecoratorOptions, LockKeyFactory } from '../decorators/lock.decorator';
+
+/** @Lock 保存的元数据，动态锁键在调用时才能确定 */
+export interface ExtendedLockOptions extends LockDecoratorOptions {
+  isDynamic?: boolean;
+  dynamicFn?: LockKeyFactory;
+}
+
+/** 键模板中的占位符，例如 'order:{params.id}' */
+const KEY_PLACEHOLDER = /\{([^{}]+)\}/g;
+
+/**
+ * 从执行上下文中提取动态锁键可以使用的请求数据
+ */
+export function createLockKeyContext(context: ExecutionContext): LockKeyContext {
+  const type = context.getType<string>();
+  const args = context.getArgs();
+
+  switch (type) {
+    case 'http': {
+      const request = context.switchToHttp().getRequest() ?? {};
+      return {
+        params: request.params ?? {},
+        query: request.query ?? {},
+        body: request.body,
+        user: request.user,
+        headers: request.headers,
+        type,
+        args,
+      };
+    }
+    case 'graphql': {
+      // 解析器参数为 (root, args, context, info)
+      const [, resolverArgs = {}, graphqlContext] = args;
+      return {
+        params: resolverArgs,
+        query: {},
+        body: resolverArgs,
+        user: graphqlContext?.req?.user ?? graphqlContext?.user,
+        type,
+        args,
+      };
+    }
+    case 'rpc':
+    case 'ws': {
+      const data = type === 'rpc' ? context.switchToRpc().getData() : context.switchToWs().getData();
+      return {
+        params: data ?? {},
+        query: {},
+        body: data,
+        user: data?.user,
+        type,
+        args,
+      };
+    }
+    default:
+      return createMethodLockKeyContext(args, type);
+  }
+}
+
+/**
+ * 普通provider方法的锁键上下文，只能通过 args 引用方法参数，例如 'order:{args.0}'
+ */
+export function createMethodLockKeyContext(args: any[], type = 'provider'): LockKeyContext {
+  return { params: {}, query: {}, body: undefined, type, args };
+}
+
+/**
+ * 计算本次调用的锁键和锁选项
+ * 动态锁键函数的返回值优先，其次是键模板，未配置键时使用 defaultKey
+ */
+export function resolveLockOptions(
+  options: ExtendedLockOptions,
+  keyContext: LockKeyContext,
+  defaultKey: string,
+): { key: string | string[]; options: LockDecoratorOptions } {
+  let resolved: LockDecoratorOptions = options;
+  if (options.isDynamic && options.dynamicFn) {
+    const dynamic = options.dynamicFn(keyContext);
+    resolved = typeof dynamic === 'string' || Array.isArray(dynamic) ? { key: dynamic } : dynamic;
+  }
+
+  if (!resolved.key) {
+    return { key: defaultKey, options: resolved };
+  }
+
+  const key = Array.isArray(resolved.key)
+    ? resolved.key.map((template) => interpolateLockKey(template, keyContext))
+    : interpolateLockKey(resolved.key, keyContext);
+  return { key, options: resolved };
+}
+
+/**
+ * 将键模板中的 {path} 替换为 LockKeyContext 中对应的值
+ * 值不存在时抛出异常，避免所有请求落到同一个 'order:undefined' 锁上
+ */
+export function interpolateLockKey(template: string, keyContext: LockKeyContext): string {
+  return template.replace(KEY_PLACEHOLDER, (placeholder, path: string) => {
+    const value = path.trim().split('.').reduce((target, segment) => target?.[segment], keyContext as any);
+
+    if (value === undefined || value === null || value === '') {
+      throw new Error(`Lock key template "${template}" references missing value ${placeholder}`);
+    }
+    return String(value);
+  });
+}
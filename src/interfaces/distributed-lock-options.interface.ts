@@ -1,8 +1,19 @@
-import {ModuleMetadata, Type} from '@nestjs/common';
+import {ArgumentsHost, ModuleMetadata, Type} from '@nestjs/common';
+import type { DistributedLockException } from '../exceptions';
+import { LockBackend } from './lock-backend.interface';
+import { RedisLockOptions } from './redis-lock-options.interface';
+import { LeaderElectionOptions } from './leader-election-options.interface';
+import { RetryStrategy } from './retry-strategy.interface';
 
 // 使用any类型来避免TypeORM版本冲突
 export type AnyDataSource = any;
 
+/** 内置锁后端类型 */
+export type LockBackendType = 'postgres' | 'mysql' | 'memory' | 'redis';
+
+/** PostgreSQL advisory lock 键的哈希算法 */
+export type LockKeyAlgorithm = 'fnv1a64' | 'legacy';
+
 export interface DistributedLockOptions {
   /** PostgreSQL连接名称（用于连接多个数据库的情况） */
   connectionName?: string;
@@ -18,6 +29,117 @@ export interface DistributedLockOptions {
   
   /** 重试间隔（毫秒） */
   retryDelay?: number;
+
+  /**
+   * 默认重试策略：固定间隔、线性递增、指数退避或自定义函数
+   * @default { type: 'fixed', delay: retryDelay }
+   */
+  retryStrategy?: RetryStrategy;
+
+  /**
+   * 将获取锁失败的异常转换为抛给调用方的异常
+   * 默认抛出 DistributedLockException（HTTP 409），RPC、WebSocket 等上下文可以根据 host.getType() 转换为 RpcException、WsException；
+   * 在 withLock 等服务方法中调用时 host 为空
+   */
+  errorFactory?: (error: DistributedLockException, host?: ArgumentsHost) => Error;
+
+  /**
+   * 锁命名空间
+   * 共用同一个数据库的不同服务、环境使用不同的命名空间，彼此的锁不会互相阻塞
+   */
+  namespace?: string;
+
+  /**
+   * 从事务上下文中获取当前的 EntityManager 或 QueryRunner，供事务作用域锁使用
+   * 未配置时使用数据源 manager 上的事务（typeorm-transactional 会将其替换为当前事务）
+   */
+  transactionResolver?: () => any;
+
+  /**
+   * 锁后端：内置后端名称或自定义的 LockBackend 实例
+   * @default 根据数据源类型自动选择 'postgres' 或 'mysql'
+   */
+  backend?: LockBackendType | LockBackend;
+
+  /**
+   * PostgreSQL advisory lock 键的哈希算法
+   * 'legacy' 为1.x版本使用的31位哈希，仅在新旧版本混合部署的滚动升级期间使用
+   * @default 'fnv1a64'
+   */
+  lockKeyAlgorithm?: LockKeyAlgorithm;
+
+  /**
+   * 是否为每次获取锁生成防护令牌（fencing token）
+   * 数据库后端会在 fencingTable 中为每个键维护单调递增的序号
+   * @default false
+   */
+  fencing?: boolean;
+
+  /**
+   * 数据库后端保存防护令牌的表名，首次使用时自动创建
+   * @default 'distributed_lock_fences'
+   */
+  fencingTable?: string;
+
+  /**
+   * 数据库后端保存 @SingletonJob 上次运行时间的表名，首次使用时自动创建
+   * @default 'distributed_lock_job_runs'
+   */
+  jobRunsTable?: string;
+
+  /**
+   * 持锁连接的心跳间隔（毫秒）
+   * 定期在所有持锁连接上执行 SELECT 1，失败时将锁标记为丢失、释放失效的连接，
+   * 并中止 withLock 回调的 signal
+   * @default undefined (不检测)
+   */
+  heartbeatInterval?: number;
+
+  /**
+   * 单次心跳的超时时间（毫秒），超时未返回视为连接失效
+   * @default heartbeatInterval
+   */
+  heartbeatTimeout?: number;
+
+  /**
+   * withLock 是否默认允许重入，可在每次调用时通过 LockAcquireOptions.reentrant 覆盖
+   * @default false
+   */
+  reentrant?: boolean;
+
+  /**
+   * 是否默认使用公平模式，可在每次调用时通过 LockAcquireOptions.fair 覆盖
+   * @default false
+   */
+  fair?: boolean;
+
+  /**
+   * 应用关闭时等待进行中的 withLock 回调执行完毕的最长时间（毫秒）
+   * 超过该时间后仍会释放所有锁，仍在执行的回调会收到 signal 中止
+   * @default 0 (不等待)
+   */
+  shutdownGracePeriod?: number;
+
+  /**
+   * 应用关闭时释放锁、取消等待中的获取请求的最长时间（毫秒）
+   * 持锁连接无响应时不会一直等待，超时后记录未释放的锁并放弃，由数据库在连接断开时回收
+   * @default 5000
+   */
+  shutdownReleaseTimeout?: number;
+
+  /**
+   * 领导者选举配置，配置后 LeaderElectionService 在应用启动时开始竞选
+   * @default undefined (不竞选)
+   */
+  leaderElection?: LeaderElectionOptions;
+
+  /** Redis后端配置（backend为'redis'时必填） */
+  redis?: RedisLockOptions;
+}
+
+export interface DistributedLockFeatureOptions {
+  /** 功能模块使用的锁命名空间 */
+  namespace: string;
 }
 
 export interface DistributedLockOptionsFactory {
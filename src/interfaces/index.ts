@@ -1,2 +1,8 @@
 export * from './distributed-lock-options.interface';
-export * from './lock-acquire-options.interface';
\ No newline at end of file
+export * from './leader-election-options.interface';
+export * from './lock-acquire-options.interface';
+export * from './lock-backend.interface';
+export * from './lock-key-context.interface';
+export * from './redis-lock-options.interface';
+export * from './retry-strategy.interface';
+export * from './singleton-job-options.interface';
\ No newline at end of file
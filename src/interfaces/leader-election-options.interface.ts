@@ -0,0 +1,20 @@
+export interface LeaderElectionOptions {
+  /**
+   * 领导权锁的键，同一个键的所有实例中只有一个成为领导者
+   * @default 'leader'
+   */
+  key?: string;
+
+  /**
+   * 未当选或失去领导权后重新竞选的间隔（毫秒）
+   * @default 5000
+   */
+  campaignInterval?: number;
+
+  /**
+   * 是否在应用启动（onApplicationBootstrap）时自动开始竞选
+   * 关闭后需要手动调用 LeaderElectionService.start
+   * @default true
+   */
+  autoStart?: boolean;
+}
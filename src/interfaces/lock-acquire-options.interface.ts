@@ -1,3 +1,11 @@
+import { RetryStrategy } from './retry-strategy.interface';
+
+/** 锁模式：排他锁（写锁）或共享锁（读锁） */
+export type LockMode = 'exclusive' | 'shared';
+
+/** 锁作用域：会话级（显式释放）或事务级（随事务结束释放） */
+export type LockScope = 'session' | 'transaction';
+
 export interface LockAcquireOptions {
   /** 锁超时时间（毫秒） */
   timeout?: number;
@@ -13,10 +21,73 @@ export interface LockAcquireOptions {
    */
   retryDelay?: number;
 
+  /**
+   * 重试策略，覆盖模块配置
+   * 仅连接断开、锁冲突等暂时性错误会重试，重试次数仍受 maxRetries 限制
+   * 轮询等待的后端（Redis、事务作用域锁）在锁被占用时也按它计算轮询间隔
+   * @default { type: 'fixed', delay: retryDelay }
+   */
+  retryStrategy?: RetryStrategy;
+
   /**
    * 锁持有时间（毫秒）
    * 如果指定了此时间，锁将在指定时间后自动释放
    * @default undefined (不自动释放)
    */
   ttl?: number;
+
+  /**
+   * 是否自动续期（看门狗）
+   * 开启后在锁持有期间每隔 renewInterval 将持有时间重置为 ttl，直到释放；
+   * 续期失败时锁被标记为丢失，并通过 LockHandle.onLost 通知。需要同时指定 ttl
+   * 未指定 ttl 而后端使用了默认过期时间（如Redis的 defaultTtl）时默认开启，避免锁在持有期间悄悄过期
+   * @default false
+   */
+  autoRenew?: boolean;
+
+  /**
+   * 自动续期间隔（毫秒）
+   * @default ttl / 3
+   */
+  renewInterval?: number;
+
+  /**
+   * 锁命名空间，覆盖模块级配置
+   * 不同命名空间中的同名锁互不影响
+   */
+  namespace?: string;
+
+  /**
+   * 锁模式
+   * 共享锁之间互不阻塞，排他锁与任何锁互斥
+   * @default 'exclusive'
+   */
+  mode?: LockMode;
+
+  /**
+   * 锁作用域
+   * 'transaction' 时锁加在调用方的事务上（pg_advisory_xact_lock），事务提交或回滚时自动释放
+   * @default 'session'
+   */
+  scope?: LockScope;
+
+  /**
+   * 事务作用域锁所在的事务（EntityManager 或 QueryRunner）
+   * 未指定时从事务上下文中查找
+   */
+  transaction?: any;
+
+  /**
+   * 是否允许重入（仅 withLock / withLockResult）
+   * 同一异步上下文中已持有该锁时只增加持有计数，不再重复获取，由最外层调用释放
+   * 默认使用模块配置
+   */
+  reentrant?: boolean;
+
+  /**
+   * 是否使用公平模式
+   * 本进程内的等待者按到达顺序排队，只有队首向后端请求锁（阻塞等待后端的锁队列），
+   * 不等待时队列非空即返回 'held'，不插队。默认使用模块配置
+   */
+  fair?: boolean;
 }
\ No newline at end of file
@@ -0,0 +1,175 @@
+import { LockMode, LockScope } from './lock-acquire-options.interface';
+import { LockKeyAlgorithm } from './distributed-lock-options.interface';
+
+export interface LockBackendAcquireOptions {
+  /** 获取锁的超时时间（毫秒） */
+  timeout: number;
+
+  /**
+   * 锁持有时间（毫秒）
+   * 支持原生过期的后端可以据此设置过期时间
+   */
+  ttl?: number;
+
+  /**
+   * 锁模式，不支持共享锁的后端应在收到 'shared' 时抛出异常
+   * @default 'exclusive'
+   */
+  mode?: LockMode;
+
+  /**
+   * 锁作用域，不支持事务级锁的后端应在收到 'transaction' 时抛出异常
+   * @default 'session'
+   */
+  scope?: LockScope;
+
+  /** 事务作用域锁所在事务的QueryRunner */
+  queryRunner?: any;
+
+  /** 本次获取的持有者token，支持的后端用它标识锁的归属 */
+  token?: string;
+
+  /**
+   * 服务关闭时触发的取消信号
+   * 阻塞等待的后端应尽快放弃等待（返回null或抛出异常），并中断数据库中等待中的加锁语句
+   */
+  signal?: AbortSignal;
+
+  /**
+   * 轮询等待的后端在锁被占用时两次尝试之间的间隔（毫秒），由调用方的 retryStrategy 生成
+   * attempt 为已尝试的次数，从1开始；返回null时停止等待并返回null。未设置时后端使用自己的默认间隔，
+   * 在数据库中阻塞等待的后端不使用
+   */
+  pollDelay?: (attempt: number) => number | null;
+}
+
+/**
+ * 后端获取锁成功后返回的租约
+ * 释放、续期时需要原样传回给后端
+ */
+export interface LockLease {
+  /** 原始锁键 */
+  key: string;
+
+  /** 后端内部使用的锁标识（如advisory lock的整数键） */
+  lockId: string | number;
+
+  /** 锁模式 */
+  mode?: LockMode;
+
+  /** 锁作用域，事务级锁不需要也无法显式释放 */
+  scope?: LockScope;
+
+  /** 后端私有的会话状态（如持有锁的QueryRunner） */
+  session?: any;
+
+  /** 多键租约中各个键的租约，释放时由后端逐个解锁 */
+  members?: LockLease[];
+
+  /**
+   * 后端实际设置的过期时间（毫秒）
+   * 调用方未指定ttl时后端使用的默认过期时间也要填写，服务层据此安排到期检测和续期
+   */
+  ttl?: number;
+
+  /**
+   * 心跳或连接监听发现持锁连接不可用时由服务层设置
+   * 释放时后端不应再在该连接上执行解锁语句（可能同样卡住），而是直接销毁连接
+   */
+  connectionError?: Error;
+}
+
+/**
+ * 锁后端抽象
+ * DistributedLockService 负责重试、TTL等通用逻辑，具体的加锁原语由后端实现
+ */
+export interface LockBackend {
+  /** 后端名称，用于日志 */
+  readonly name: string;
+
+  /** 阻塞获取锁，未能获取时返回null */
+  acquire(key: string, options: LockBackendAcquireOptions): Promise<LockLease | null>;
+
+  /** 非阻塞获取锁，锁被占用时立即返回null */
+  tryAcquire(key: string, options: LockBackendAcquireOptions): Promise<LockLease | null>;
+
+  /**
+   * 在同一个会话上按规范顺序获取多把锁（可选）
+   * 任意一把锁未能获取时必须释放已获取的锁；返回的租约通过 members 列出各个键，
+   * release、extend、ping 均以该租约为单位。未实现时服务层按键逐个获取
+   * @param wait false 时不等待，任意一把锁被占用即返回null
+   */
+  acquireMany?(keys: string[], options: LockBackendAcquireOptions, wait: boolean): Promise<LockLease | null>;
+
+  /**
+   * 释放锁
+   * 未提供lease时后端应尽力按key释放
+   * @returns 锁是否确实被释放
+   */
+  release(key: string, lease?: LockLease): Promise<boolean>;
+
+  /** 检查锁当前是否被任意持有者持有 */
+  isHeld(key: string): Promise<boolean>;
+
+  /**
+   * 延长锁的持有时间
+   * 没有过期概念的后端直接返回true
+   */
+  extend(lease: LockLease, ttl: number): Promise<boolean>;
+
+  /**
+   * 为刚获取的锁生成防护令牌（可选）
+   * 同一个键的令牌必须单调递增，开启 fencing 时后端必须实现
+   */
+  fence?(lease: LockLease): Promise<number>;
+
+  /**
+   * 检查持有锁的连接是否仍然可用（可选）
+   * 连接已断开时抛出异常，服务层据此将锁标记为丢失
+   */
+  ping?(lease: LockLease): Promise<void>;
+
+  /**
+   * 监听持有锁的连接异常（可选）
+   * 连接出错或关闭时调用 onLost，返回取消监听的函数
+   */
+  watch?(lease: LockLease, onLost: (error: Error) => void): () => void;
+
+  /**
+   * 读取任务上次运行的时间戳（毫秒，可选），从未运行时返回null
+   * @SingletonJob 配置 minIntervalMs 时后端必须实现
+   */
+  getLastRun?(key: string): Promise<number | null>;
+
+  /**
+   * 记录任务运行的时间戳（毫秒，可选），在持有任务锁期间调用
+   */
+  setLastRun?(key: string, time: number): Promise<void>;
+
+  /**
+   * 返回当前事务上下文中的QueryRunner（可选）
+   * 用于在未显式传入事务时查找调用方的事务
+   */
+  currentTransaction?(): any;
+}
+
+/** 基于SQL数据库的内置后端的配置 */
+export interface SqlLockBackendOptions {
+  /**
+   * advisory lock 键的哈希算法（仅PostgreSQL）
+   * @default 'fnv1a64'
+   */
+  keyAlgorithm?: LockKeyAlgorithm;
+
+  /**
+   * 保存防护令牌的表名
+   * @default 'distributed_lock_fences'
+   */
+  fencingTable?: string;
+
+  /**
+   * 保存 @SingletonJob 上次运行时间的表名
+   * @default 'distributed_lock_job_runs'
+   */
+  jobRunsTable?: string;
+}
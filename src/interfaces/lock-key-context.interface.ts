@@ -0,0 +1,22 @@
+/**
+ * 动态锁键函数和键模板可以使用的请求数据
+ * HTTP：来自 request 的 params、query、body 和 user
+ * RPC / WebSocket：params 和 body 均为消息数据
+ * GraphQL：params 和 body 均为解析器的参数，user 来自 GraphQL 上下文中的 req.user
+ */
+export interface LockKeyContext {
+  /** 路由参数 */
+  params: Record<string, any>;
+  /** 查询参数 */
+  query: Record<string, any>;
+  /** 请求体或消息数据 */
+  body: any;
+  /** 当前用户（通常由认证守卫写入） */
+  user?: any;
+  /** 请求头，仅HTTP上下文提供 */
+  headers?: Record<string, any>;
+  /** 执行上下文类型：'http'、'rpc'、'ws'、'graphql' */
+  type: string;
+  /** 处理器收到的原始参数 */
+  args: any[];
+}
@@ -0,0 +1,36 @@
+/**
+ * Redis客户端的最小接口（与ioredis的命令签名兼容）
+ * 使用其他客户端时可以自行包装成该接口
+ */
+export interface RedisLockClient {
+  set(key: string, value: string, ...args: (string | number)[]): Promise<string | null>;
+  eval(script: string, numKeys: number, ...args: (string | number)[]): Promise<unknown>;
+  exists(key: string): Promise<number>;
+  /** 仅在开启 fencing 时需要 */
+  incr?(key: string): Promise<number>;
+  /** 仅在 @SingletonJob 使用 minIntervalMs 时需要 */
+  get?(key: string): Promise<string | null>;
+}
+
+export interface RedisLockOptions {
+  /** Redis客户端 */
+  client: RedisLockClient;
+
+  /**
+   * 锁键前缀
+   * @default 'lock:'
+   */
+  keyPrefix?: string;
+
+  /**
+   * 未指定ttl时锁在Redis中的过期时间（毫秒），防止进程崩溃后锁永不释放
+   * @default 30000
+   */
+  defaultTtl?: number;
+
+  /**
+   * 阻塞获取时的轮询间隔（毫秒），获取时配置了 retryStrategy 则按其计算
+   * @default 100
+   */
+  pollInterval?: number;
+}
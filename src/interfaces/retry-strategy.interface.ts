@@ -0,0 +1,66 @@
+/** 指数退避的随机抖动方式 */
+export type RetryJitter = 'none' | 'full' | 'decorrelated';
+
+/** 固定间隔重试 */
+export interface FixedRetryStrategy {
+  type: 'fixed';
+  /**
+   * 重试间隔（毫秒）
+   * @default retryDelay
+   */
+  delay?: number;
+}
+
+/** 线性递增间隔重试：delay + increment * (attempt - 1) */
+export interface LinearRetryStrategy {
+  type: 'linear';
+  /**
+   * 首次重试间隔（毫秒）
+   * @default retryDelay
+   */
+  delay?: number;
+  /**
+   * 每次重试增加的间隔（毫秒）
+   * @default delay
+   */
+  increment?: number;
+  /** 最大间隔（毫秒） */
+  maxDelay?: number;
+}
+
+/** 指数退避重试：delay * factor ^ (attempt - 1) */
+export interface ExponentialRetryStrategy {
+  type: 'exponential';
+  /**
+   * 首次重试间隔（毫秒）
+   * @default retryDelay
+   */
+  delay?: number;
+  /**
+   * 增长倍数
+   * @default 2
+   */
+  factor?: number;
+  /** 最大间隔（毫秒） */
+  maxDelay?: number;
+  /**
+   * 随机抖动，避免大量实例同时重试
+   * full：在 [0, 退避间隔] 内随机；decorrelated：在 [delay, 上次间隔 * 3] 内随机
+   * @default 'none'
+   */
+  jitter?: RetryJitter;
+}
+
+/**
+ * 自定义重试间隔
+ * @param attempt 已失败的次数，从1开始
+ * @param lastError 最近一次失败的错误
+ * @returns 下次重试前的等待时间（毫秒），返回null时停止重试
+ */
+export type RetryDelayFunction = (attempt: number, lastError: Error) => number | null;
+
+export type RetryStrategy =
+  | FixedRetryStrategy
+  | LinearRetryStrategy
+  | ExponentialRetryStrategy
+  | RetryDelayFunction;
@@ -0,0 +1,33 @@
+import { LockAcquireOptions } from './lock-acquire-options.interface';
+
+export interface SingletonJobOptions extends Omit<LockAcquireOptions, 'wait' | 'mode' | 'scope' | 'transaction'> {
+  /**
+   * 任务锁的键
+   * @default '类名.方法名'
+   */
+  key?: string;
+
+  /**
+   * 其他实例正在执行时是否直接跳过
+   * 为false时在 timeout 内等待其他实例执行完毕
+   * @default true
+   */
+  skipIfLocked?: boolean;
+
+  /**
+   * 两次运行之间的最小间隔（毫秒）
+   * 上次成功运行的开始时间保存在锁后端中，距该时间不足该间隔时跳过，避免各实例时钟或调度偏差导致重复执行
+   * 运行失败时不记录，下次调度会重新执行
+   */
+  minIntervalMs?: number;
+}
+
+/** 单例任务的执行结果 */
+export interface SingletonJobResult<T> {
+  /** 本实例是否执行了任务 */
+  ran: boolean;
+  /** 任务的返回值（仅在ran=true时有效） */
+  result?: T;
+  /** 跳过的原因：其他实例正在执行，或距上次运行不足 minIntervalMs */
+  skipped?: 'locked' | 'interval';
+}
@@ -0,0 +1,113 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { DistributedLockModule } from './distributed-lock.module';
+import { LeaderElectionService } from './leader-election.service';
+import { MemoryLockBackend, RedisLockBackend } from './backends';
+import { LockBackend } from './interfaces';
+import { FakeRedisClient } from '../test/mocks/redis-client.mock';
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('LeaderElectionService', () => {
+  let backend: LockBackend;
+  const modules: TestingModule[] = [];
+
+  // 共用同一个后端的多个模块模拟多个实例
+  const startInstance = async (autoStart = true) => {
+    const module = await Test.createTestingModule({
+      imports: [DistributedLockModule.forRoot({
+        backend,
+        leaderElection: { key: 'scheduler', campaignInterval: 10, autoStart },
+      })],
+    }).compile();
+    modules.push(module);
+    await module.init();
+    return module.get(LeaderElectionService);
+  };
+
+  beforeEach(() => {
+    backend = new MemoryLockBackend();
+  });
+
+  afterEach(async () => {
+    await Promise.all(modules.splice(0).map((module) => module.close()));
+  });
+
+  it('should elect exactly one leader', async () => {
+    const first = await startInstance();
+    const second = await startInstance();
+
+    expect(first.isLeader()).toBe(true);
+    expect(second.isLeader()).toBe(false);
+  });
+
+  it('should hand over leadership when the leader shuts down', async () => {
+    await startInstance();
+    const follower = await startInstance();
+    const changes: boolean[] = [];
+    follower.onLeadershipChange((isLeader) => changes.push(isLeader));
+
+    await modules[0].close();
+    await sleep(50);
+
+    expect(follower.isLeader()).toBe(true);
+    expect(changes).toEqual([true]);
+  });
+
+  it('should stop campaigning when the lock service shuts down', async () => {
+    const leader = await startInstance();
+    const changes: boolean[] = [];
+    leader.onLeadershipChange((isLeader) => changes.push(isLeader));
+    const warn = jest.spyOn(leader['logger'], 'warn');
+    const error = jest.spyOn(leader['logger'], 'error');
+    const acquire = jest.spyOn(backend, 'tryAcquire');
+
+    await modules[0].close();
+    await sleep(50);
+
+    expect(leader.isLeader()).toBe(false);
+    expect(changes).toEqual([false]);
+    expect(acquire).not.toHaveBeenCalled();
+    expect(warn).not.toHaveBeenCalled();
+    expect(error).not.toHaveBeenCalled();
+  });
+
+  it('should re-campaign after losing the lock', async () => {
+    const leader = await startInstance();
+    const changes: boolean[] = [];
+    leader.onLeadershipChange((isLeader) => changes.push(isLeader));
+
+    // 模拟持锁连接断开
+    leader['lock']['markLost'](new Error('connection closed'));
+    expect(leader.isLeader()).toBe(false);
+
+    await sleep(50);
+
+    expect(leader.isLeader()).toBe(true);
+    expect(changes).toEqual([false, true]);
+  });
+
+  it('should keep leadership past the backend ttl', async () => {
+    backend = new RedisLockBackend({ client: new FakeRedisClient(), pollInterval: 10, defaultTtl: 60 });
+    const leader = await startInstance();
+    const follower = await startInstance();
+    const changes: boolean[] = [];
+    leader.onLeadershipChange((isLeader) => changes.push(isLeader));
+
+    await sleep(250);
+
+    expect(leader.isLeader()).toBe(true);
+    expect(follower.isLeader()).toBe(false);
+    expect(changes).toEqual([]);
+  });
+
+  it('should not campaign until started when autoStart is false', async () => {
+    const service = await startInstance(false);
+    expect(service.isLeader()).toBe(false);
+
+    await service.start();
+    expect(service.isLeader()).toBe(true);
+
+    await service.stop();
+    expect(service.isLeader()).toBe(false);
+  });
+});
@@ -0,0 +1,166 @@
+import { BeforeApplicationShutdown, Inject, Injectable, Logger, OnApplicationBootstrap } from '@nestjs/common';
+
+import { DistributedLockOptions } from './interfaces';
+import { DistributedLockService, LockHandle } from './distributed-lock.service';
+import {
+  DISTRIBUTED_LOCK_MODULE_OPTIONS,
+  DEFAULT_CAMPAIGN_INTERVAL,
+  DEFAULT_LEADER_KEY,
+} from './distributed-lock.constants';
+
+/**
+ * 基于分布式锁的领导者选举
+ * 持有领导权锁的实例为领导者，锁在独立的会话上一直持有到应用关闭（beforeApplicationShutdown），带过期时间的锁会自动续期；
+ * 持锁连接断开（需要配置 heartbeatInterval 才能发现无响应的连接）或续期失败后失去领导权并重新竞选
+ */
+@Injectable()
+export class LeaderElectionService implements OnApplicationBootstrap, BeforeApplicationShutdown {
+  private readonly logger = new Logger(LeaderElectionService.name);
+  private readonly key: string;
+  private readonly campaignInterval: number;
+  private readonly listeners = new Set<(isLeader: boolean) => void>();
+  private lock?: LockHandle;
+  private campaignTimer?: NodeJS.Timeout;
+  private running = false;
+
+  constructor(
+    private readonly lockService: DistributedLockService,
+    @Inject(DISTRIBUTED_LOCK_MODULE_OPTIONS)
+    private readonly options: DistributedLockOptions,
+  ) {
+    this.key = options.leaderElection?.key ?? DEFAULT_LEADER_KEY;
+    this.campaignInterval = options.leaderElection?.campaignInterval ?? DEFAULT_CAMPAIGN_INTERVAL;
+  }
+
+  async onApplicationBootstrap(): Promise<void> {
+    if (this.options.leaderElection && this.options.leaderElection.autoStart !== false) {
+      await this.start();
+    }
+  }
+
+  /**
+   * 与 DistributedLockService 一起在 beforeApplicationShutdown 阶段停止竞选并释放领导权
+   */
+  async beforeApplicationShutdown(): Promise<void> {
+    await this.stop();
+  }
+
+  /** 当前实例是否为领导者 */
+  isLeader(): boolean {
+    return this.lock?.status === 'held';
+  }
+
+  /**
+   * 注册领导权变化的回调，当选时参数为true，失去或放弃领导权时为false
+   * @returns 取消注册的函数
+   */
+  onLeadershipChange(listener: (isLeader: boolean) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * 开始竞选，未当选时每隔 campaignInterval 重新尝试
+   */
+  async start(): Promise<void> {
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    await this.campaign();
+  }
+
+  /**
+   * 停止竞选，当前为领导者时释放领导权
+   */
+  async stop(): Promise<void> {
+    this.running = false;
+    clearTimeout(this.campaignTimer);
+
+    const lock = this.lock;
+    this.lock = undefined;
+    if (!lock) {
+      return;
+    }
+
+    await lock.release().catch((e) => {
+      this.logger.error(`释放领导权失败 ${this.key}`, e);
+    });
+    this.logger.log(`resigned leadership: ${this.key}`);
+    this.notify(false);
+  }
+
+  private async campaign(): Promise<void> {
+    if (!this.running || this.lock || this.lockService.isShuttingDown()) {
+      return;
+    }
+
+    // 后端为锁设置了过期时间（如Redis）时持续续期，领导权不会在任期内悄悄过期
+    const result = await this.lockService.acquire(this.key, { wait: false, maxRetries: 0, autoRenew: true });
+
+    if (!result.acquired) {
+      if (result.reason !== 'held') {
+        this.logger.warn(`campaign for leadership failed: ${this.key} ${result.error?.message}`);
+      }
+      this.scheduleCampaign();
+      return;
+    }
+
+    // 竞选期间调用了 stop
+    if (!this.running) {
+      await result.lock.release();
+      return;
+    }
+
+    const lock = result.lock;
+    this.lock = lock;
+    lock.onLost((error) => {
+      if (this.lock !== lock) {
+        return;
+      }
+
+      this.lock = undefined;
+
+      // 应用关闭时锁服务释放了领导权锁，不再重新竞选
+      if (this.lockService.isShuttingDown()) {
+        this.running = false;
+        clearTimeout(this.campaignTimer);
+        this.logger.log(`resigned leadership: ${this.key}`);
+        this.notify(false);
+        return;
+      }
+
+      this.logger.warn(`lost leadership: ${this.key} ${error?.message ?? ''}`);
+      this.notify(false);
+      this.scheduleCampaign();
+    });
+
+    this.logger.log(`acquired leadership: ${this.key}`);
+    this.notify(true);
+  }
+
+  private scheduleCampaign(): void {
+    if (!this.running) {
+      return;
+    }
+
+    clearTimeout(this.campaignTimer);
+    this.campaignTimer = setTimeout(() => {
+      this.campaign().catch((error) => {
+        this.logger.error(`campaign for leadership failed: ${this.key}`, error);
+        this.scheduleCampaign();
+      });
+    }, this.campaignInterval);
+  }
+
+  private notify(isLeader: boolean): void {
+    for (const listener of [...this.listeners]) {
+      try {
+        listener(isLeader);
+      } catch (error) {
+        this.logger.error(`Leadership listener failed for ${this.key}`, error);
+      }
+    }
+  }
+}
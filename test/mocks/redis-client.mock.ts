@@ -0,0 +1,60 @@
+import { RedisLockClient } from '../../src/interfaces';
+
+/**
+ * 进程内的Redis替身，只实现锁后端用到的命令
+ */
+export class FakeRedisClient implements RedisLockClient {
+  private readonly store = new Map<string, { value: string; expiresAt?: number }>();
+
+  async set(key: string, value: string, ...args: (string | number)[]): Promise<string | null> {
+    const pxIndex = args.indexOf('PX');
+    const ttl = pxIndex >= 0 ? Number(args[pxIndex + 1]) : undefined;
+
+    if (args.includes('NX') && this.read(key) !== null) {
+      return null;
+    }
+
+    this.store.set(key, { value, expiresAt: ttl ? Date.now() + ttl : undefined });
+    return 'OK';
+  }
+
+  async eval(script: string, _numKeys: number, key: string, token: string, ttl?: number): Promise<number> {
+    if (this.read(key) !== token) {
+      return 0;
+    }
+
+    if (script.includes('"pexpire"')) {
+      this.store.get(key).expiresAt = Date.now() + Number(ttl);
+    } else {
+      this.store.delete(key);
+    }
+    return 1;
+  }
+
+  async exists(key: string): Promise<number> {
+    return this.read(key) === null ? 0 : 1;
+  }
+
+  async incr(key: string): Promise<number> {
+    const value = Number(this.read(key) ?? 0) + 1;
+    this.store.set(key, { value: String(value) });
+    return value;
+  }
+
+  async get(key: string): Promise<string | null> {
+    return this.read(key);
+  }
+
+  private read(key: string): string | null {
+    const entry = this.store.get(key);
+    if (!entry) {
+      return null;
+    }
+
+    if (entry.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+      this.store.delete(key);
+      return null;
+    }
+    return entry.value;
+  }
+}